@@ -24,6 +24,10 @@ import { configuration } from './src/configuration/configuration';
 import { globalState } from './src/state/globalState';
 import { taskQueue } from './src/taskQueue';
 import { Register } from './src/register/register';
+import { SourceCommand } from './src/cmd_line/commands/source';
+import { userCommands } from './src/cmd_line/subparser';
+import { hooks } from './src/hooks/hooks';
+import { VimError } from './src/error';
 
 let extensionContext: vscode.ExtensionContext;
 let previousActiveEditorId: EditorIdentity | null = null;
@@ -87,6 +91,33 @@ async function loadConfiguration() {
     }
   }
 }
+
+/**
+ * Runs the commands of the user's kakrc, whose mappings and options are lost
+ * whenever the configuration is loaded again. The hooks and user commands it
+ * added last time are cleared first, so that they aren't added twice.
+ */
+async function sourceKakrc() {
+  hooks.clear();
+  userCommands.clear();
+
+  if (!configuration.kakrc || !vscode.window.activeTextEditor) {
+    return;
+  }
+
+  const mh = await getAndUpdateModeHandler();
+  try {
+    await new SourceCommand({ file: configuration.kakrc }).execute(mh.vimState);
+  } catch (e) {
+    StatusBar.Set(
+      `${configuration.kakrc}: ${e instanceof VimError ? e.toString() : e.message}`,
+      mh.vimState.currentMode,
+      mh.vimState.isRecordingMacro,
+      true
+    );
+  }
+}
+
 export async function activate(context: vscode.ExtensionContext) {
   // before we do anything else,
   // we need to load the configuration first
@@ -112,6 +143,7 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.workspace.onDidChangeConfiguration,
     async () => {
       await loadConfiguration();
+      await sourceKakrc();
     },
     false
   );
@@ -132,12 +164,18 @@ export async function activate(context: vscode.ExtensionContext) {
 
     if (textWasDeleted(event)) {
       globalState.jumpTracker.handleTextDeleted(event.document, event.contentChanges[0].range);
+      Register.handleTextDeleted(event.document, event.contentChanges[0].range);
     } else if (textWasAdded(event)) {
       globalState.jumpTracker.handleTextAdded(
         event.document,
         event.contentChanges[0].range,
         event.contentChanges[0].text
       );
+      Register.handleTextAdded(
+        event.document,
+        event.contentChanges[0].range,
+        event.contentChanges[0].text
+      );
     }
 
     // Change from vscode editor should set document.isDirty to true but they initially don't!
@@ -165,13 +203,25 @@ export async function activate(context: vscode.ExtensionContext) {
         });
     }
 
-    setTimeout(() => {
+    setTimeout(async () => {
       if (!event.document.isDirty && !event.document.isUntitled && event.contentChanges.length) {
-        handleContentChangedFromDisk(event.document);
+        try {
+          await handleContentChangedFromDisk(event.document);
+        } catch (e) {
+          Logger.get('Extension').error(`Failed to reload the undo file. err=${e}.`);
+        }
       }
     }, 0);
   });
 
+  registerEventListener(context, vscode.workspace.onDidSaveTextDocument, async document => {
+    for (const modeHandler of ModeHandlerMap.getAll()) {
+      if (modeHandler.vimState.identity.fileName === document.fileName) {
+        await modeHandler.vimState.historyTracker.saveUndoFile();
+      }
+    }
+  });
+
   registerEventListener(
     context,
     vscode.workspace.onDidCloseTextDocument,
@@ -399,6 +449,8 @@ export async function activate(context: vscode.ExtensionContext) {
     mh.updateView(mh.vimState, { drawSelection: false, revealRange: false });
   }
 
+  await sourceKakrc();
+
   // Disable automatic keyboard navigation in lists, so it doesn't interfere
   // with our list navigation keybindings
   await VsCodeContext.Set('listAutomaticKeyboardNavigation', false);
@@ -501,10 +553,11 @@ async function handleKeyEvent(key: string): Promise<void> {
   });
 }
 
-function handleContentChangedFromDisk(document: vscode.TextDocument): void {
-  ModeHandlerMap.getAll()
-    .filter(modeHandler => modeHandler.vimState.identity.fileName === document.fileName)
-    .forEach(modeHandler => {
+async function handleContentChangedFromDisk(document: vscode.TextDocument): Promise<void> {
+  for (const modeHandler of ModeHandlerMap.getAll()) {
+    if (modeHandler.vimState.identity.fileName === document.fileName) {
       modeHandler.vimState.historyTracker.clear();
-    });
+      await modeHandler.vimState.historyTracker.loadUndoFile();
+    }
+  }
 }
@@ -17,6 +17,11 @@ export class BaseAction {
 
   public canBeRepeatedWithDot = false;
 
+  /**
+   * Can `<a-.>` in KakNormal repeat this selection?
+   */
+  public isRepeatableSelection = false;
+
   /**
    * Modes that this action can be run in.
    */
@@ -27,6 +32,12 @@ export class BaseAction {
    */
   public keys: string[] | string[][];
 
+  /**
+   * What the action does, shown in the key hint while the rest of its keys are
+   * awaited.
+   */
+  public description: string | undefined;
+
   public mustBeFirstKey = false;
 
   public isOperator = false;
@@ -153,7 +164,7 @@ export class BaseAction {
     return this.keys.join('');
   }
 
-  private static is2DArray<T>(x: any): x is T[][] {
+  public static is2DArray<T>(x: any): x is T[][] {
     return Array.isArray(x[0]);
   }
 }
@@ -163,6 +174,11 @@ export enum KeypressState {
   NoPossibleMatch,
 }
 
+export interface IKeyContinuation {
+  key: string;
+  description: string | undefined;
+}
+
 export class Actions {
   /**
    * Every Vim action will be added here with the @RegisterAction decorator.
@@ -201,6 +217,44 @@ export class Actions {
 
     return isPotentialMatch ? KeypressState.WaitingOnKeys : KeypressState.NoPossibleMatch;
   }
+
+  /**
+   * Gets the keys that could follow a partial key sequence, each with the
+   * description of the action it would complete. Like actions themselves, the
+   * first one registered wins.
+   */
+  public static getContinuations(keysPressed: string[], vimState: VimState): IKeyContinuation[] {
+    const continuations: IKeyContinuation[] = [];
+    const seen = new Set<string>();
+
+    const possibleActionsForMode = Actions.actionMap.get(vimState.currentMode) || [];
+    for (const actionType of possibleActionsForMode) {
+      const action = new actionType();
+      if (!action.couldActionApply(vimState, keysPressed)) {
+        continue;
+      }
+
+      const keys2D = BaseAction.is2DArray(action.keys) ? action.keys : [action.keys];
+      for (const keys of keys2D) {
+        const key = keys[keysPressed.length];
+        if (
+          key === undefined ||
+          seen.has(key) ||
+          !BaseAction.CompareKeypressSequence(keys.slice(0, keysPressed.length), keysPressed)
+        ) {
+          continue;
+        }
+
+        seen.add(key);
+        continuations.push({
+          key,
+          description: keys.length === keysPressed.length + 1 ? action.description : undefined,
+        });
+      }
+    }
+
+    return continuations;
+  }
 }
 
 export function RegisterAction(action: typeof BaseAction): void {
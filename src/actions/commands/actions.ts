@@ -24,7 +24,8 @@ import { BaseAction } from './../base';
 import { commandLine } from './../../cmd_line/commandLine';
 import * as operator from './../operator';
 import { Jump } from '../../jumps/jump';
-import { commandParsers } from '../../cmd_line/subparser';
+import { commandParsers, getParser, userCommands } from '../../cmd_line/subparser';
+import { getBufferName, getBuffers, isFuzzyMatch } from '../../cmd_line/commands/buffer';
 import { StatusBar } from '../../statusBar';
 import { readDirectory, getPathDetails } from '../../util/path';
 import {
@@ -34,6 +35,7 @@ import {
   ReportSearch,
 } from '../../util/statusBarTextUtils';
 import { globalState } from '../../state/globalState';
+import { VimError, ErrorCode } from '../../error';
 
 export class DocumentContentChangeAction extends BaseAction {
   contentChanges: {
@@ -289,7 +291,13 @@ class EnableExtension extends BaseCommand {
 
 @RegisterAction
 export class CommandNumber extends BaseCommand {
-  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
+  modes = [
+    ModeName.Normal,
+    ModeName.KakNormal,
+    ModeName.Visual,
+    ModeName.VisualLine,
+    ModeName.VisualBlock,
+  ];
   keys = ['<number>'];
   isCompleteAction = false;
   runsOnceForEveryCursor() {
@@ -325,7 +333,7 @@ export class CommandNumber extends BaseCommand {
 
 @RegisterAction
 export class CommandRegister extends BaseCommand {
-  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine];
+  modes = [ModeName.Normal, ModeName.KakNormal, ModeName.Visual, ModeName.VisualLine];
   keys = ['"', '<character>'];
   isCompleteAction = false;
 
@@ -819,7 +827,13 @@ export class CommandKakInsertAtCursor extends BaseCommand {
   public async exec(position: Position, vimState: VimState): Promise<VimState> {
     await vimState.setCurrentMode(ModeName.KakInsert);
 
-    vimState.cursorStopPosition = vimState.cursorStartPosition;
+    // Insert before the selection, whichever way it faces
+    const selectionBegin = Position.EarlierOf(
+      vimState.cursorStartPosition,
+      vimState.cursorStopPosition
+    );
+    vimState.cursorStartPosition = selectionBegin;
+    vimState.cursorStopPosition = selectionBegin;
 
     return vimState;
   }
@@ -953,7 +967,12 @@ class CommandInsertInSearchMode extends BaseCommand {
   isJump = true;
 
   runsOnceForEveryCursor() {
-    return this.keysPressed[0] === '\n';
+    // Selection operations work on all the selections at once
+    return (
+      this.keysPressed[0] === '\n' &&
+      globalState.searchState!.selectionOperation === undefined &&
+      globalState.searchState!.selectMode === undefined
+    );
   }
 
   public async exec(position: Position, vimState: VimState): Promise<VimState> {
@@ -1004,6 +1023,57 @@ class CommandInsertInSearchMode extends BaseCommand {
 
       globalState.addSearchStateToHistory(searchState);
 
+      if (searchState.selectionOperation !== undefined) {
+        const selections = searchState.applySelectionOperation(vimState.cursors);
+        searchState.selectionOperation = undefined;
+
+        vimState.statusBarCursorCharacterPos = 0;
+        Register.putByKey(searchState.searchString, '/', undefined, true);
+
+        if (selections.length === 0) {
+          StatusBar.Set(
+            VimError.fromCode(ErrorCode.E486).toString(),
+            vimState.currentMode,
+            vimState.isRecordingMacro,
+            true
+          );
+        } else {
+          vimState.cursors = selections;
+        }
+
+        return vimState;
+      }
+
+      if (searchState.selectMode !== undefined) {
+        const result = searchState.selectNextMatches(
+          vimState.cursors,
+          vimState.mainSelectionIndex,
+          searchState.selectMode,
+          searchState.searchDirection
+        );
+        searchState.selectMode = undefined;
+
+        globalState.hl = true;
+
+        vimState.statusBarCursorCharacterPos = 0;
+        Register.putByKey(searchState.searchString, '/', undefined, true);
+
+        if (result === undefined) {
+          StatusBar.Set(
+            VimError.fromCode(ErrorCode.E486).toString(),
+            vimState.currentMode,
+            vimState.isRecordingMacro,
+            true
+          );
+        } else {
+          vimState.cursors = result.selections;
+          vimState.mainSelectionIndex = result.mainSelectionIndex;
+          ReportSearch(result.index, searchState.matchRanges.length, vimState);
+        }
+
+        return vimState;
+      }
+
       // Move cursor to next match
       const nextMatch = searchState.getNextSearchMatchPosition(vimState.cursorStopPosition);
       vimState.cursorStopPosition = nextMatch.pos;
@@ -1386,13 +1456,7 @@ class CommandSearchVisualBackward extends BaseCommand {
 
 @RegisterAction
 export class CommandSearchForwards extends BaseCommand {
-  modes = [
-    ModeName.Normal,
-    ModeName.KakNormal,
-    ModeName.Visual,
-    ModeName.VisualLine,
-    ModeName.VisualBlock,
-  ];
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['/'];
   isMotion = true;
   isJump = true;
@@ -1964,6 +2028,7 @@ class CommandShowCommandLine extends BaseCommand {
 
     // Store the current mode for use in retaining selection
     commandLine.previousMode = vimState.currentMode;
+    commandLine.isKakoune = false;
 
     // Change to the new mode
     await vimState.setCurrentMode(ModeName.CommandlineInProgress);
@@ -2060,15 +2125,44 @@ class CommandTabInCommandline extends BaseCommand {
     let restCmd = currentCmd.slice(cursorPos);
 
     // \s* is the match the extra space before any character like ':  edit'
-    const cmdRegex = /^\s*\w+$/;
-    const fileRegex = /^\s*\w+\s+/g;
+    const cmdRegex = /^\s*[\w-]+$/;
+    const fileRegex = /^\s*[\w-]+\s+/g;
+    const commandName = (/^\s*([\w-]+)!?\s/.exec(evalCmd) || [])[1];
+    const userCommand = userCommands.get(commandName);
+    const completesBuffers =
+      commandName !== undefined &&
+      [commandParsers.buffer, commandParsers['delete-buffer'], commandParsers.db].some(
+        ({ parser }) => parser === getParser(commandName)
+      );
     if (cmdRegex.test(evalCmd)) {
       // Command completion
       newCompletionItems = Object.keys(commandParsers)
+        .concat(Array.from(userCommands.keys()).filter(cmd => !commandParsers.hasOwnProperty(cmd)))
         .filter(cmd => cmd.startsWith(evalCmd))
         // Remove the already typed portion in the array
         .map(cmd => cmd.slice(cmd.search(evalCmd) + evalCmd.length))
         .sort();
+    } else if (
+      completesBuffers ||
+      (userCommand !== undefined && userCommand.completion === 'buffer')
+    ) {
+      // Buffer names are fuzzy matched, so the completion replaces what was typed
+      const partial = /\S*$/.exec(evalCmd)![0];
+      newCompletionItems = getBuffers()
+        .map(getBufferName)
+        .filter(name => isFuzzyMatch(partial, name))
+        .sort();
+      if (newCompletionItems.length > 0) {
+        evalCmd = evalCmd.slice(0, evalCmd.length - partial.length);
+      }
+    } else if (userCommand !== undefined && userCommand.completion !== 'file') {
+      // The parameters of user commands are completed from their own candidates
+      const partial = /\S*$/.exec(evalCmd)![0];
+      const candidates = userCommand.completion instanceof Array ? userCommand.completion : [];
+      newCompletionItems = candidates
+        .filter(candidate => candidate.startsWith(partial))
+        .map(candidate => candidate.slice(partial.length))
+        .sort();
     } else if (fileRegex.exec(evalCmd)) {
       // File completion by searching if there is a space after the first word/command
       // ideally it should be a process of white-listing to selected commands like :e and :vsp
@@ -2103,7 +2197,7 @@ class CommandTabInCommandline extends BaseCommand {
     commandLine.autoCompleteIndex = newIndex;
     // If here only one items we fill cmd direct, so the next tab will not cycle the one item array
     commandLine.autoCompleteItems = newCompletionItems.length <= 1 ? [] : newCompletionItems;
-    commandLine.preCompleteCharacterPos = cursorPos;
+    commandLine.preCompleteCharacterPos = evalCmd.length;
     commandLine.preCompleteCommand = evalCmd + restCmd;
 
     const completion = newCompletionItems.length === 0 ? '' : newCompletionItems[newIndex];
@@ -2115,6 +2209,16 @@ class CommandTabInCommandline extends BaseCommand {
   }
 }
 
+/**
+ * Prompts and KakNormal go back to the mode they came from once the command
+ * line closes, while Vim modes go back to Normal.
+ */
+function getModeAfterCommandline(): ModeName {
+  return commandLine.prompt !== undefined || commandLine.previousMode === ModeName.KakNormal
+    ? commandLine.previousMode
+    : ModeName.Normal;
+}
+
 @RegisterAction
 class CommandInsertInCommandline extends BaseCommand {
   modes = [ModeName.CommandlineInProgress];
@@ -2134,7 +2238,8 @@ class CommandInsertInCommandline extends BaseCommand {
     ['<Del>'],
   ];
   runsOnceForEveryCursor() {
-    return this.keysPressed[0] === '\n';
+    // Prompts work on all the selections at once
+    return this.keysPressed[0] === '\n' && commandLine.prompt === undefined;
   }
 
   public async exec(position: Position, vimState: VimState): Promise<VimState> {
@@ -2143,7 +2248,8 @@ class CommandInsertInCommandline extends BaseCommand {
     // handle special keys first
     if (key === '<BS>' || key === '<shift+BS>' || key === '<C-h>') {
       if (vimState.statusBarCursorCharacterPos === 0) {
-        await vimState.setCurrentMode(ModeName.Normal);
+        await vimState.setCurrentMode(getModeAfterCommandline());
+        commandLine.prompt = undefined;
         return vimState;
       }
 
@@ -2167,8 +2273,20 @@ class CommandInsertInCommandline extends BaseCommand {
     } else if (key === '<End>' || key === '<C-e>') {
       vimState.statusBarCursorCharacterPos = vimState.currentCommandlineText.length;
     } else if (key === '\n') {
-      await commandLine.Run(vimState.currentCommandlineText.trim(), vimState);
-      await vimState.setCurrentMode(ModeName.Normal);
+      const prompt = commandLine.prompt;
+      if (prompt !== undefined) {
+        commandLine.prompt = undefined;
+        await vimState.setCurrentMode(commandLine.previousMode);
+        await prompt.accept(vimState.currentCommandlineText, vimState);
+        return vimState;
+      }
+
+      if (commandLine.isKakoune) {
+        await commandLine.RunKakoune(vimState.currentCommandlineText.trim(), vimState);
+      } else {
+        await commandLine.Run(vimState.currentCommandlineText.trim(), vimState);
+      }
+      await vimState.setCurrentMode(getModeAfterCommandline());
       return vimState;
     } else if (key === '<up>' || key === '<C-p>') {
       commandLine.commandlineHistoryIndex -= 1;
@@ -2186,7 +2304,10 @@ class CommandInsertInCommandline extends BaseCommand {
 
       // If past the first history item, allow user to enter their own new command string (not using history)
       if (commandLine.commandlineHistoryIndex > commandLine.historyEntries.length - 1) {
-        if (commandLine.previousMode === ModeName.Normal) {
+        if (
+          commandLine.previousMode === ModeName.Normal ||
+          commandLine.previousMode === ModeName.KakNormal
+        ) {
           vimState.currentCommandlineText = '';
         } else {
           vimState.currentCommandlineText = "'<,'>";
@@ -2226,7 +2347,8 @@ class CommandEscInCommandline extends BaseCommand {
   public async exec(position: Position, vimState: VimState): Promise<VimState> {
     const key = this.keysPressed[0];
 
-    await vimState.setCurrentMode(ModeName.Normal);
+    await vimState.setCurrentMode(getModeAfterCommandline());
+    commandLine.prompt = undefined;
 
     commandLine.lastKeyPressed = key;
     return vimState;
@@ -2950,8 +3072,9 @@ class CommandExitVisualLineMode extends BaseCommand {
 
 @RegisterAction
 class CommandOpenFile extends BaseCommand {
-  modes = [ModeName.Normal, ModeName.Visual];
+  modes = [ModeName.Normal, ModeName.KakNormal, ModeName.Visual];
   keys = ['g', 'f'];
+  description = 'file';
   isJump = true;
 
   public async exec(position: Position, vimState: VimState): Promise<VimState> {
@@ -2961,6 +3084,11 @@ class CommandOpenFile extends BaseCommand {
       const selection = TextEditor.getSelection();
       const end = new Position(selection.end.line, selection.end.character + 1);
       fullFilePath = TextEditor.getText(selection.with(selection.start, end));
+    } else if (
+      vimState.currentMode === ModeName.KakNormal &&
+      !vimState.mainSelection.start.isEqual(vimState.mainSelection.stop)
+    ) {
+      fullFilePath = TextEditor.getText(vimState.mainSelection.getSelectedRange()).trim();
     } else {
       const start = position.getFilePathLeft(true);
       const end = position.getFilePathRight();
@@ -2977,7 +3105,7 @@ class CommandOpenFile extends BaseCommand {
         lineNumber: lineNumber,
         createFileIfNotExists: false,
       });
-      fileCommand.execute();
+      await fileCommand.execute();
     }
 
     return vimState;
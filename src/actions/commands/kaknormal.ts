@@ -0,0 +1,2414 @@
+import * as vscode from 'vscode';
+
+import { VimState, ViewChange } from '../../state/vimState';
+import { Position } from './../../common/motion/position';
+import { Range } from './../../common/motion/range';
+import { ModeName } from './../../mode/mode';
+import {
+  SearchDirection,
+  SearchSelectMode,
+  SearchState,
+  SelectionOperation,
+} from './../../state/searchState';
+import { RegisterAction } from './../base';
+import { globalState } from '../../state/globalState';
+import { TextEditor } from './../../textEditor';
+import { ISelectionSet, Register } from './../../register/register';
+import { configuration } from './../../configuration/configuration';
+import { commandLine } from './../../cmd_line/commandLine';
+import { getShellEnvironment } from './../../cmd_line/kakExpansions';
+import { StatusBar } from './../../statusBar';
+import { VimError, ErrorCode } from './../../error';
+import { ReportSearch } from './../../util/statusBarTextUtils';
+import { executeShellFilter, IShellFilterResult } from './../../util/util';
+import { customObject, KakObjectFinder, kakObjects } from './../kakTextObject';
+import { BaseCommand, CommandRegister } from './actions';
+
+function getSelectionBegin(cursor: Range): Position {
+  return Position.EarlierOf(cursor.start, cursor.stop);
+}
+
+function getSelectionEnd(cursor: Range): Position {
+  return Position.LaterOf(cursor.start, cursor.stop);
+}
+
+/**
+ * Indices of the cursors in document order, which is the order Kakoune uses
+ * when rotating selections.
+ */
+function getSelectionOrder(cursors: Range[]): number[] {
+  return cursors
+    .map((_, i) => i)
+    .sort(
+      (a, b) => getSelectionBegin(cursors[a]).compareTo(getSelectionBegin(cursors[b])) || a - b
+    );
+}
+
+/**
+ * Start and end offsets into a piece of text.
+ */
+type Span = [number, number];
+
+/**
+ * A replacement made by applySelectionEdits(), along with the parts of the new
+ * text to select once it is in the document.
+ */
+interface ISelectionEdit {
+  /**
+   * Text to replace. Use an empty range to insert.
+   */
+  range: vscode.Range;
+
+  text: string;
+
+  /**
+   * Start and end offsets into `text` of every selection to make. An empty
+   * span makes a single character selection at its start.
+   */
+  spans: Span[];
+}
+
+/**
+ * Applies every edit in a single document edit, then returns the selections
+ * asked for by their spans, in the order of the edits.
+ */
+async function applySelectionEdits(vimState: VimState, edits: ISelectionEdit[]): Promise<Range[]> {
+  const offsets = edits.map(({ range }) => ({
+    start: TextEditor.getOffsetAt(range.start as Position),
+    end: TextEditor.getOffsetAt(range.end as Position),
+  }));
+
+  await vimState.editor.edit(edit => {
+    edits.forEach(({ range, text }) => edit.replace(range, text));
+  });
+
+  // Every edit shifts the ones that come after it in the document
+  const order = edits.map((_, i) => i).sort((a, b) => offsets[a].start - offsets[b].start || a - b);
+  const shifts: number[] = [];
+  let shift = 0;
+  for (const i of order) {
+    shifts[i] = shift;
+    shift += edits[i].text.length - (offsets[i].end - offsets[i].start);
+  }
+
+  const selections: Range[] = [];
+  edits.forEach(({ spans }, i) => {
+    const base = offsets[i].start + shifts[i];
+    for (const [spanStart, spanEnd] of spans) {
+      const start = TextEditor.getPositionAt(base + spanStart);
+      selections.push(
+        spanEnd > spanStart
+          ? Range.FromSelectedRange(
+              new vscode.Range(start, TextEditor.getPositionAt(base + spanEnd))
+            )
+          : new Range(start, start)
+      );
+    }
+  });
+
+  return selections;
+}
+
+/**
+ * Replaces the text of every selection with the corresponding entry of `texts`
+ * in a single edit, then selects each replacement, keeping its direction.
+ */
+export async function replaceSelections(vimState: VimState, texts: string[]): Promise<void> {
+  const selections = await applySelectionEdits(
+    vimState,
+    vimState.cursors.map((cursor, i) => ({
+      range: cursor.getSelectedRange(),
+      text: texts[i],
+      spans: [[0, texts[i].length]] as Span[],
+    }))
+  );
+
+  vimState.cursors = selections.map((selection, i) =>
+    vimState.cursors[i].isForward ? selection : selection.reversed()
+  );
+}
+
+/**
+ * Opens a regex prompt which, once accepted, applies a SelectionOperation to
+ * every selection. The prompt itself is handled by SearchInProgressMode.
+ */
+abstract class CommandSelectionRegexPrompt extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly operation: SelectionOperation;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    globalState.searchState = new SearchState(
+      SearchDirection.Forward,
+      vimState.cursorStopPosition,
+      '',
+      { isRegex: true },
+      vimState.currentMode
+    );
+    globalState.searchState.selectionOperation = this.operation;
+    await vimState.setCurrentMode(ModeName.SearchInProgressMode);
+
+    // Reset search history index
+    globalState.searchStateIndex = globalState.searchStatePrevious.length;
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandSelectRegexInSelections extends CommandSelectionRegexPrompt {
+  keys = ['s'];
+  protected readonly operation = SelectionOperation.Select;
+}
+
+@RegisterAction
+class CommandSplitSelectionsOnRegex extends CommandSelectionRegexPrompt {
+  keys = ['S'];
+  protected readonly operation = SelectionOperation.Split;
+}
+
+@RegisterAction
+class CommandKeepSelectionsMatching extends CommandSelectionRegexPrompt {
+  keys = ['<a-k>'];
+  protected readonly operation = SelectionOperation.Keep;
+}
+
+@RegisterAction
+class CommandKeepSelectionsNotMatching extends CommandSelectionRegexPrompt {
+  keys = ['<a-K>'];
+  protected readonly operation = SelectionOperation.Drop;
+}
+
+/**
+ * Opens a search prompt which, once accepted, selects the next match in
+ * `direction` from every selection, or extends the selections to it.
+ */
+abstract class CommandKakSearchPrompt extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  isJump = true;
+  protected abstract readonly direction: SearchDirection;
+  protected abstract readonly selectMode: SearchSelectMode;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    globalState.searchState = new SearchState(
+      this.direction,
+      vimState.cursorStopPosition,
+      '',
+      { isRegex: true },
+      vimState.currentMode
+    );
+    globalState.searchState.selectMode = this.selectMode;
+    await vimState.setCurrentMode(ModeName.SearchInProgressMode);
+
+    // Reset search history index
+    globalState.searchStateIndex = globalState.searchStatePrevious.length;
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakSearchForwards extends CommandKakSearchPrompt {
+  keys = ['/'];
+  protected readonly direction = SearchDirection.Forward;
+  protected readonly selectMode = SearchSelectMode.Replace;
+}
+
+@RegisterAction
+class CommandKakSearchBackwards extends CommandKakSearchPrompt {
+  keys = ['<a-/>'];
+  protected readonly direction = SearchDirection.Backward;
+  protected readonly selectMode = SearchSelectMode.Replace;
+}
+
+@RegisterAction
+class CommandKakSearchExtendForwards extends CommandKakSearchPrompt {
+  keys = ['?'];
+  protected readonly direction = SearchDirection.Forward;
+  protected readonly selectMode = SearchSelectMode.Extend;
+}
+
+@RegisterAction
+class CommandKakSearchExtendBackwards extends CommandKakSearchPrompt {
+  keys = ['<a-?>'];
+  protected readonly direction = SearchDirection.Backward;
+  protected readonly selectMode = SearchSelectMode.Extend;
+}
+
+/**
+ * Selects the next match of the last search in `direction`, `count` times.
+ */
+abstract class CommandKakSearchNext extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  isJump = true;
+  protected abstract readonly direction: SearchDirection;
+  protected abstract readonly selectMode: SearchSelectMode;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const searchState = globalState.searchState;
+    if (!searchState || searchState.searchString === '') {
+      return vimState;
+    }
+
+    // Turn one of the highlighting flags back on (turned off with :nohl)
+    globalState.hl = true;
+
+    const result = searchState.selectNextMatches(
+      vimState.cursors,
+      vimState.mainSelectionIndex,
+      this.selectMode,
+      this.direction,
+      vimState.recordedState.count || 1
+    );
+
+    if (result === undefined) {
+      StatusBar.Set(
+        VimError.fromCode(ErrorCode.E486).toString(),
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+    } else {
+      vimState.cursors = result.selections;
+      vimState.mainSelectionIndex = result.mainSelectionIndex;
+      ReportSearch(result.index, searchState.matchRanges.length, vimState);
+    }
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakSelectNextMatch extends CommandKakSearchNext {
+  keys = ['n'];
+  protected readonly direction = SearchDirection.Forward;
+  protected readonly selectMode = SearchSelectMode.Replace;
+}
+
+@RegisterAction
+class CommandKakAddNextMatch extends CommandKakSearchNext {
+  keys = ['N'];
+  protected readonly direction = SearchDirection.Forward;
+  protected readonly selectMode = SearchSelectMode.Append;
+}
+
+@RegisterAction
+class CommandKakSelectPreviousMatch extends CommandKakSearchNext {
+  keys = ['<a-n>'];
+  protected readonly direction = SearchDirection.Backward;
+  protected readonly selectMode = SearchSelectMode.Replace;
+}
+
+@RegisterAction
+class CommandKakAddPreviousMatch extends CommandKakSearchNext {
+  keys = ['<a-N>'];
+  protected readonly direction = SearchDirection.Backward;
+  protected readonly selectMode = SearchSelectMode.Append;
+}
+
+/**
+ * Selects a text object around the cursor of every selection, picked by the key
+ * after the command's own. Selections with no such object around them are left
+ * as they are. The custom object, `c`, first asks for an `open,close` pair of
+ * regexes.
+ */
+abstract class CommandSelectObject extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  isRepeatableSelection = true;
+  protected abstract readonly inner: boolean;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  /**
+   * The new selection, given the current one and the object around its cursor.
+   */
+  protected abstract select(selection: Range, object: Range): Range;
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const key = this.keysPressed[1];
+
+    if (key === 'c') {
+      commandLine.previousMode = vimState.currentMode;
+      commandLine.prompt = {
+        label: 'object desc:',
+        accept: (text, state) => this.selectCustomObjects(text, state),
+      };
+      vimState.currentCommandlineText = '';
+      vimState.statusBarCursorCharacterPos = 0;
+      await vimState.setCurrentMode(ModeName.CommandlineInProgress);
+    } else if (kakObjects[key] !== undefined) {
+      await this.selectObjects(vimState, kakObjects[key]);
+    }
+
+    return vimState;
+  }
+
+  private async selectObjects(vimState: VimState, finder: KakObjectFinder): Promise<void> {
+    const selections: Range[] = [];
+    for (const selection of vimState.cursors) {
+      const object = await finder(selection.cursor, this.inner, vimState);
+      selections.push(object !== undefined ? this.select(selection, object) : selection);
+    }
+
+    vimState.cursors = selections;
+  }
+
+  private async selectCustomObjects(description: string, vimState: VimState): Promise<void> {
+    const [open, close] = description.split(/(?<!\\),/).map(regex => regex.replace(/\\,/g, ','));
+
+    let finder: KakObjectFinder;
+    try {
+      if (!open || !close) {
+        throw new Error('expected <open>,<close>');
+      }
+      finder = customObject(open, close);
+    } catch (e) {
+      StatusBar.Set(
+        `Invalid object description: ${e.message}`,
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+      return;
+    }
+
+    await this.selectObjects(vimState, finder);
+  }
+}
+
+@RegisterAction
+class CommandSelectInnerObject extends CommandSelectObject {
+  keys = [['<a-i>', '<character>'], ['<a-i>', '<a-w>']];
+  protected readonly inner = true;
+
+  protected select(selection: Range, object: Range): Range {
+    return object;
+  }
+}
+
+@RegisterAction
+class CommandSelectWholeObject extends CommandSelectObject {
+  keys = [['<a-a>', '<character>'], ['<a-a>', '<a-w>']];
+  protected readonly inner = false;
+
+  protected select(selection: Range, object: Range): Range {
+    return object;
+  }
+}
+
+@RegisterAction
+class CommandSelectToObjectStart extends CommandSelectObject {
+  keys = [['[', '<character>'], ['[', '<a-w>']];
+  protected readonly inner = false;
+
+  protected select(selection: Range, object: Range): Range {
+    return new Range(selection.cursor, object.start);
+  }
+}
+
+@RegisterAction
+class CommandSelectToObjectEnd extends CommandSelectObject {
+  keys = [[']', '<character>'], [']', '<a-w>']];
+  protected readonly inner = false;
+
+  protected select(selection: Range, object: Range): Range {
+    return new Range(selection.cursor, object.stop);
+  }
+}
+
+@RegisterAction
+class CommandExtendToObjectStart extends CommandSelectObject {
+  keys = [['{', '<character>'], ['{', '<a-w>']];
+  protected readonly inner = false;
+
+  protected select(selection: Range, object: Range): Range {
+    return new Range(selection.anchor, object.start);
+  }
+}
+
+@RegisterAction
+class CommandExtendToObjectEnd extends CommandSelectObject {
+  keys = [['}', '<character>'], ['}', '<a-w>']];
+  protected readonly inner = false;
+
+  protected select(selection: Range, object: Range): Range {
+    return new Range(selection.anchor, object.stop);
+  }
+}
+
+@RegisterAction
+class CommandSplitSelectionsOnLines extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['<a-s>'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const selections: Range[] = [];
+
+    for (const cursor of vimState.cursors) {
+      const selected = cursor.getSelectedRange();
+
+      for (let line = selected.start.line; line <= selected.end.line; line++) {
+        // Every line but the last one keeps its line break
+        const start = line === selected.start.line ? selected.start : new Position(line, 0);
+        const end = line === selected.end.line ? selected.end : new Position(line + 1, 0);
+
+        if (end.isAfter(start)) {
+          selections.push(Range.FromSelectedRange(new vscode.Range(start, end)));
+        }
+      }
+    }
+
+    if (selections.length > 0) {
+      vimState.cursors = selections;
+    }
+
+    return vimState;
+  }
+}
+
+/**
+ * Puts the text of every selection in the current register, one entry per selection.
+ */
+function yankSelections(vimState: VimState): void {
+  vimState.cursors.forEach((cursor, i) => {
+    Register.put(TextEditor.getText(cursor.getSelectedRange()), vimState, i);
+  });
+}
+
+abstract class CommandRotateMainSelection extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  runsOnceForEachCountPrefix = true;
+  protected abstract readonly step: number;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const order = getSelectionOrder(vimState.cursors);
+    const rank = order.indexOf(vimState.mainSelectionIndex);
+
+    vimState.mainSelectionIndex = order[(rank + this.step + order.length) % order.length];
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandRotateMainSelectionForward extends CommandRotateMainSelection {
+  keys = [')'];
+  protected readonly step = 1;
+}
+
+@RegisterAction
+class CommandRotateMainSelectionBackward extends CommandRotateMainSelection {
+  keys = ['('];
+  protected readonly step = -1;
+}
+
+/**
+ * Copies every selection to the following (or preceding) lines, skipping lines
+ * too short to hold its screen columns. Every copy keeps the screen columns of
+ * the original selection, so copies line up across tabs and short lines. A
+ * count makes that many copies. The last copy of the main selection becomes
+ * the main one.
+ */
+abstract class CommandCopySelectionsToNextLines extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly direction: number;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const count = vimState.recordedState.count || 1;
+    const selections = vimState.cursors.slice(0);
+    let main = vimState.mainSelection;
+
+    vimState.cursors.forEach((cursor, i) => {
+      const desiredColumn = {
+        start: TextEditor.getDisplayColumn(cursor.start),
+        stop: TextEditor.getDisplayColumn(cursor.stop),
+      };
+
+      let copy: Range | undefined = cursor;
+      for (let n = 0; n < count; n++) {
+        copy = this.copyToNextLines(copy, desiredColumn);
+        if (copy === undefined) {
+          break;
+        }
+
+        selections.push(copy);
+        if (i === vimState.mainSelectionIndex) {
+          main = copy;
+        }
+      }
+    });
+
+    vimState.cursors = selections;
+    vimState.mainSelectionIndex = vimState.cursors.findIndex(cursor => cursor.equals(main));
+
+    return vimState;
+  }
+
+  /**
+   * The nearest copy of `selection` past its own lines where both its anchor and
+   * cursor screen columns exist.
+   */
+  private copyToNextLines(
+    selection: Range,
+    desiredColumn: { start: number; stop: number }
+  ): Range | undefined {
+    const { start, stop } = selection;
+    const lastLine = TextEditor.getLineCount() - 1;
+    const height = Math.abs(stop.line - start.line) + 1;
+
+    for (let offset = height * this.direction; ; offset += this.direction) {
+      const startLine = start.line + offset;
+      const stopLine = stop.line + offset;
+      if (Math.min(startLine, stopLine) < 0 || Math.max(startLine, stopLine) > lastLine) {
+        return undefined;
+      }
+
+      const copyStart = TextEditor.getPositionAtDisplayColumn(startLine, desiredColumn.start);
+      const copyStop = TextEditor.getPositionAtDisplayColumn(stopLine, desiredColumn.stop);
+      if (copyStart !== undefined && copyStop !== undefined) {
+        return new Range(copyStart, copyStop);
+      }
+    }
+  }
+}
+
+@RegisterAction
+class CommandCopySelectionsDown extends CommandCopySelectionsToNextLines {
+  keys = ['C'];
+  protected readonly direction = 1;
+}
+
+@RegisterAction
+class CommandCopySelectionsUp extends CommandCopySelectionsToNextLines {
+  keys = ['<a-C>'];
+  protected readonly direction = -1;
+}
+
+@RegisterAction
+class CommandMergeContiguousSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['<a-m>'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const merged: Range[] = [];
+    let mainIndex = 0;
+
+    for (const i of getSelectionOrder(vimState.cursors)) {
+      const begin = getSelectionBegin(vimState.cursors[i]);
+      const end = getSelectionEnd(vimState.cursors[i]);
+      const last = merged[merged.length - 1];
+
+      // Selections touching or overlapping the previous one join it
+      if (
+        last !== undefined &&
+        TextEditor.getOffsetAt(begin) <= TextEditor.getOffsetAt(last.stop) + 1
+      ) {
+        merged[merged.length - 1] = new Range(last.start, Position.LaterOf(last.stop, end));
+      } else {
+        merged.push(new Range(begin, end));
+      }
+
+      if (i === vimState.mainSelectionIndex) {
+        mainIndex = merged.length - 1;
+      }
+    }
+
+    vimState.cursors = merged;
+    vimState.mainSelectionIndex = mainIndex;
+
+    return vimState;
+  }
+}
+
+/**
+ * Gets the index of the selection a KakNormal command acts on: the count-th
+ * one in document order, or the main one without a count. Returns undefined
+ * when the count is too large.
+ */
+function getCountedSelectionIndex(vimState: VimState): number | undefined {
+  const count = vimState.recordedState.count;
+  return count > 0 ? getSelectionOrder(vimState.cursors)[count - 1] : vimState.mainSelectionIndex;
+}
+
+@RegisterAction
+class CommandKeepMainSelection extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = [' '];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const index = getCountedSelectionIndex(vimState);
+    if (index !== undefined) {
+      vimState.cursors = [vimState.cursors[index]];
+      vimState.mainSelectionIndex = 0;
+    }
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandRemoveMainSelection extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['<a-space>'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const index = getCountedSelectionIndex(vimState);
+    if (index === undefined) {
+      return vimState;
+    }
+
+    if (vimState.cursors.length === 1) {
+      StatusBar.Set(
+        'No selections remaining',
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+      return vimState;
+    }
+
+    vimState.cursors = vimState.cursors.filter((_, i) => i !== index);
+    vimState.mainSelectionIndex = Math.min(index, vimState.cursors.length - 1);
+
+    return vimState;
+  }
+}
+
+/**
+ * Whitespace which moves text at screen column `column` right by `width`
+ * columns, made of tabs where it can be unless `expandtab` is set.
+ */
+function getPadding(column: number, width: number): string {
+  const tabstop = configuration.tabstop;
+  const target = column + width;
+  const tabs = Math.floor(target / tabstop) - Math.floor(column / tabstop);
+
+  return configuration.expandtab || tabs === 0
+    ? ' '.repeat(width)
+    : '\t'.repeat(tabs) + ' '.repeat(target % tabstop);
+}
+
+/**
+ * Inserts the corresponding entry of `texts` before every selection in a
+ * single edit, keeping the selections on their text.
+ */
+async function insertBeforeSelections(vimState: VimState, texts: string[]): Promise<void> {
+  const selections = await applySelectionEdits(
+    vimState,
+    vimState.cursors.map((cursor, i) => {
+      const range = cursor.getSelectedRange();
+      const text = TextEditor.getText(range);
+      return {
+        range,
+        text: texts[i] + text,
+        spans: [[texts[i].length, texts[i].length + text.length]] as Span[],
+      };
+    })
+  );
+
+  vimState.cursors = selections.map((selection, i) =>
+    vimState.cursors[i].isForward ? selection : selection.reversed()
+  );
+}
+
+/**
+ * Pads the selections so that their cursors line up. The n-th selection of
+ * every line is aligned with the n-th selection of the others, one column at a
+ * time, so padding a column also moves the ones after it.
+ */
+@RegisterAction
+class CommandAlignSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['&'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    if (vimState.cursors.some(cursor => cursor.start.line !== cursor.stop.line)) {
+      StatusBar.Set(
+        'Cannot align multi-line selections',
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+      return vimState;
+    }
+
+    const columns: number[][] = [];
+    let line = -1;
+    let column = 0;
+    for (const i of getSelectionOrder(vimState.cursors)) {
+      column = vimState.cursors[i].stop.line === line ? column + 1 : 0;
+      line = vimState.cursors[i].stop.line;
+      columns[column] = (columns[column] || []).concat(i);
+    }
+
+    for (const indices of columns) {
+      const displayColumns = indices.map(i =>
+        TextEditor.getDisplayColumn(vimState.cursors[i].stop)
+      );
+      const target = Math.max(...displayColumns);
+      if (displayColumns.every(displayColumn => displayColumn === target)) {
+        continue;
+      }
+
+      const paddings = vimState.cursors.map(() => '');
+      indices.forEach((cursorIndex, i) => {
+        const begin = getSelectionBegin(vimState.cursors[cursorIndex]);
+        paddings[cursorIndex] = getPadding(
+          TextEditor.getDisplayColumn(begin),
+          target - displayColumns[i]
+        );
+      });
+
+      await insertBeforeSelections(vimState, paddings);
+    }
+
+    return vimState;
+  }
+}
+
+/**
+ * Replaces the first `length` characters of every line in `edits` with `text`
+ * in a single edit, moving the selections along. Selections starting a line
+ * keep starting it.
+ */
+async function replaceLineStarts(
+  vimState: VimState,
+  edits: Map<number, { length: number; text: string }>
+): Promise<void> {
+  if (edits.size === 0) {
+    return;
+  }
+
+  await vimState.editor.edit(builder => {
+    edits.forEach(({ length, text }, line) => {
+      builder.replace(new vscode.Range(line, 0, line, length), text);
+    });
+  });
+
+  const shift = (point: Position): Position => {
+    const edit = edits.get(point.line);
+    if (edit === undefined || point.character === 0) {
+      return point;
+    }
+
+    return point.withColumn(
+      point.character >= edit.length
+        ? point.character - edit.length + edit.text.length
+        : Math.min(point.character, edit.text.length)
+    );
+  };
+  vimState.cursors = vimState.cursors.map(
+    cursor => new Range(shift(cursor.start), shift(cursor.stop))
+  );
+}
+
+/**
+ * Gets the numbers of the lines touched by the selections, in document order
+ * and without duplicates.
+ */
+function getSelectedLines(cursors: Range[]): number[] {
+  const lines: number[] = [];
+  for (const i of getSelectionOrder(cursors)) {
+    const first = Math.max(getSelectionBegin(cursors[i]).line, lines[lines.length - 1] + 1 || 0);
+    for (let line = first; line <= getSelectionEnd(cursors[i]).line; line++) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Gives every line of the other selections the indentation of the line of the
+ * main (or count-th) selection. Blank lines are left alone.
+ */
+@RegisterAction
+class CommandCopyIndentation extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['<a-&>'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const index = getCountedSelectionIndex(vimState);
+    if (index === undefined) {
+      return vimState;
+    }
+
+    const reference = vimState.cursors[index];
+    const referenceBegin = getSelectionBegin(reference).line;
+    const referenceEnd = getSelectionEnd(reference).line;
+    const indentation = /^[ \t]*/.exec(TextEditor.readLineAt(referenceBegin))![0];
+
+    const edits = new Map<number, { length: number; text: string }>();
+    for (const line of getSelectedLines(vimState.cursors)) {
+      const text = TextEditor.readLineAt(line);
+      if ((line < referenceBegin || line > referenceEnd) && text.trim() !== '') {
+        edits.set(line, { length: /^[ \t]*/.exec(text)![0].length, text: indentation });
+      }
+    }
+
+    await replaceLineStarts(vimState, edits);
+
+    return vimState;
+  }
+}
+
+/**
+ * Indents every line of the selections by `count` indentation levels. Empty
+ * lines are skipped unless `includeEmptyLines` is set.
+ */
+abstract class CommandIndentSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly includeEmptyLines: boolean;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const count = vimState.recordedState.count || 1;
+    const indentation = configuration.expandtab
+      ? ' '.repeat(configuration.tabstop * count)
+      : '\t'.repeat(count);
+
+    const edits = new Map<number, { length: number; text: string }>();
+    for (const line of getSelectedLines(vimState.cursors)) {
+      if (this.includeEmptyLines || TextEditor.readLineAt(line).length > 0) {
+        edits.set(line, { length: 0, text: indentation });
+      }
+    }
+
+    await replaceLineStarts(vimState, edits);
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandIndentSelectionsSkippingEmptyLines extends CommandIndentSelections {
+  keys = ['>'];
+  protected readonly includeEmptyLines = false;
+}
+
+@RegisterAction
+class CommandIndentSelectionsIncludingEmptyLines extends CommandIndentSelections {
+  keys = ['<a-gt>'];
+  protected readonly includeEmptyLines = true;
+}
+
+/**
+ * Removes up to `count` indentation levels from every line of the selections.
+ * Indentation narrower than that is removed too unless `keepIncompleteIndents`
+ * is set.
+ */
+abstract class CommandDeindentSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly keepIncompleteIndents: boolean;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const tabSize = configuration.tabstop;
+    const indentWidth = tabSize * (vimState.recordedState.count || 1);
+
+    const edits = new Map<number, { length: number; text: string }>();
+    for (const line of getSelectedLines(vimState.cursors)) {
+      const text = TextEditor.readLineAt(line);
+      let width = 0;
+      let length = 0;
+      while (length < text.length && width < indentWidth && /[ \t]/.test(text[length])) {
+        width = text[length] === '\t' ? width + tabSize - (width % tabSize) : width + 1;
+        length++;
+      }
+
+      if (length > 0 && (width >= indentWidth || !this.keepIncompleteIndents)) {
+        edits.set(line, { length, text: '' });
+      }
+    }
+
+    await replaceLineStarts(vimState, edits);
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandDeindentSelectionsIncludingIncomplete extends CommandDeindentSelections {
+  keys = ['<'];
+  protected readonly keepIncompleteIndents = false;
+}
+
+@RegisterAction
+class CommandDeindentSelectionsKeepingIncomplete extends CommandDeindentSelections {
+  keys = ['<a-lt>'];
+  protected readonly keepIncompleteIndents = true;
+}
+
+/**
+ * Joins the lines of every selection, or a single line selection with the
+ * next line, replacing each line break and the indentation after it with a
+ * space.
+ */
+abstract class CommandJoinLines extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly selectSpaces: boolean;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const lastLine = TextEditor.getLineCount() - 1;
+    const ranges: vscode.Range[] = [];
+    for (const i of getSelectionOrder(vimState.cursors)) {
+      const begin = getSelectionBegin(vimState.cursors[i]).line;
+      const end = getSelectionEnd(vimState.cursors[i]).line;
+      const previous = ranges[ranges.length - 1];
+      const first = previous === undefined ? begin : Math.max(begin, previous.end.line);
+      for (let line = first; line < Math.min(lastLine, begin === end ? end + 1 : end); line++) {
+        const next = TextEditor.readLineAt(line + 1);
+        ranges.push(
+          new vscode.Range(
+            line,
+            TextEditor.getLineMaxColumn(line),
+            line + 1,
+            /^[ \t]*/.exec(next)![0].length
+          )
+        );
+      }
+    }
+
+    if (ranges.length === 0) {
+      return vimState;
+    }
+
+    // Where every selection ends up once the joined line breaks are gone
+    const shift = (offset: number) => {
+      let shifted = offset;
+      for (const range of ranges) {
+        const start = TextEditor.getOffsetAt(range.start as Position);
+        const end = TextEditor.getOffsetAt(range.end as Position);
+        if (offset >= end) {
+          shifted -= end - start - 1;
+        } else if (offset > start) {
+          shifted -= offset - start;
+        }
+      }
+      return shifted;
+    };
+    const offsets = vimState.cursors.map(cursor => [
+      shift(TextEditor.getOffsetAt(cursor.start)),
+      shift(TextEditor.getOffsetAt(cursor.stop)),
+    ]);
+
+    const spaces = await applySelectionEdits(
+      vimState,
+      ranges.map(range => ({ range, text: ' ', spans: [[0, 1]] as Span[] }))
+    );
+
+    vimState.cursors = this.selectSpaces
+      ? spaces
+      : offsets.map(
+          ([start, stop]) =>
+            new Range(TextEditor.getPositionAt(start), TextEditor.getPositionAt(stop))
+        );
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandJoinSelectedLines extends CommandJoinLines {
+  keys = ['<a-j>'];
+  protected readonly selectSpaces = false;
+}
+
+@RegisterAction
+class CommandJoinSelectedLinesSelectingSpaces extends CommandJoinLines {
+  keys = ['<a-J>'];
+  protected readonly selectSpaces = true;
+}
+
+/**
+ * Replaces the text of every selection with its transformed text through
+ * `replaceText` transformations, so that they are all made in one edit. The
+ * transformed text must keep the line breaks of the original.
+ */
+function transformSelections(
+  vimState: VimState,
+  transform: (text: string, begin: Position) => string
+): void {
+  const selections: Range[] = [];
+  // How far the edits made so far moved the rest of each line
+  const lineShifts = new Map<number, number>();
+
+  for (const i of getSelectionOrder(vimState.cursors)) {
+    const cursor = vimState.cursors[i];
+    const range = cursor.getSelectedRange();
+    const start = range.start as Position;
+    const end = range.end as Position;
+    const text = transform(TextEditor.getText(range), start);
+
+    vimState.recordedState.transformations.push({
+      type: 'replaceText',
+      text,
+      start,
+      end,
+      cursorIndex: i,
+      manuallySetCursorPositions: true,
+    });
+
+    const lastLine = text.substring(text.lastIndexOf('\n') + 1);
+    const newStart = start.withColumn(start.character + (lineShifts.get(start.line) || 0));
+    const newEnd = end.withColumn(
+      start.line === end.line ? newStart.character + lastLine.length : lastLine.length
+    );
+    lineShifts.set(end.line, newEnd.character - end.character);
+
+    const selection = newEnd.isAfter(newStart)
+      ? Range.FromSelectedRange(new vscode.Range(newStart, newEnd))
+      : new Range(newStart, newStart);
+    selections[i] = cursor.isForward ? selection : selection.reversed();
+  }
+
+  vimState.cursors = selections;
+}
+
+/**
+ * Converts the tabs (or spaces) of every selection, using the count as the tab
+ * size when there is one.
+ */
+abstract class CommandRetabSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+
+  protected abstract retab(text: string, column: number, tabSize: number): string;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const tabSize = vimState.recordedState.count || configuration.tabstop;
+    transformSelections(vimState, (text, begin) =>
+      this.retab(text, TextEditor.getDisplayColumn(begin, tabSize), tabSize)
+    );
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandTabsToSpaces extends CommandRetabSelections {
+  keys = ['@'];
+
+  protected retab(text: string, column: number, tabSize: number): string {
+    let result = '';
+    for (const char of text) {
+      if (char === '\t') {
+        const width = tabSize - (column % tabSize);
+        result += ' '.repeat(width);
+        column += width;
+      } else {
+        result += char;
+        column = char === '\n' ? 0 : column + 1;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Replaces the spaces reaching a tab stop with a tab, as well as the ones
+ * right before a tab.
+ */
+@RegisterAction
+class CommandSpacesToTabs extends CommandRetabSelections {
+  keys = ['<a-@>'];
+
+  protected retab(text: string, column: number, tabSize: number): string {
+    let result = '';
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+      if (char !== ' ') {
+        result += char;
+        column =
+          char === '\n' ? 0 : char === '\t' ? column + tabSize - (column % tabSize) : column + 1;
+        i++;
+        continue;
+      }
+
+      let end = i + 1;
+      column++;
+      while (end < text.length && text[end] === ' ' && column % tabSize !== 0) {
+        end++;
+        column++;
+      }
+
+      if (column % tabSize === 0) {
+        result += '\t';
+      } else if (text[end] === '\t') {
+        result += '\t';
+        column += tabSize - (column % tabSize);
+        end++;
+      } else {
+        result += text.substring(i, end);
+      }
+      i = end;
+    }
+
+    return result;
+  }
+}
+
+abstract class CommandChangeSelectionsCase extends BaseCommand {
+  modes = [ModeName.KakNormal];
+
+  protected abstract changeCase(text: string): string;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    transformSelections(vimState, text => this.changeCase(text));
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandLowerCaseSelections extends CommandChangeSelectionsCase {
+  keys = ['`'];
+
+  protected changeCase(text: string): string {
+    return text.toLocaleLowerCase();
+  }
+}
+
+@RegisterAction
+class CommandUpperCaseSelections extends CommandChangeSelectionsCase {
+  keys = ['~'];
+
+  protected changeCase(text: string): string {
+    return text.toLocaleUpperCase();
+  }
+}
+
+@RegisterAction
+class CommandSwapSelectionsCase extends CommandChangeSelectionsCase {
+  keys = ['<a-`>'];
+
+  protected changeCase(text: string): string {
+    let result = '';
+    for (const char of text) {
+      const lower = char.toLocaleLowerCase();
+      result += lower === char ? char.toLocaleUpperCase() : lower;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Moves the content of every selection into the next (or previous) one. A count
+ * splits the selections into groups of that size, which are rotated separately.
+ */
+abstract class CommandRotateSelectionContents extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly step: number;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const order = getSelectionOrder(vimState.cursors);
+    const contents = vimState.cursors.map(cursor => TextEditor.getText(cursor.getSelectedRange()));
+    const groupSize = vimState.recordedState.count || order.length;
+
+    const texts: string[] = [];
+    for (let groupStart = 0; groupStart < order.length; groupStart += groupSize) {
+      const group = order.slice(groupStart, groupStart + groupSize);
+      group.forEach((cursorIndex, i) => {
+        const source = group[(i - this.step + group.length) % group.length];
+        texts[cursorIndex] = contents[source];
+      });
+    }
+
+    await replaceSelections(vimState, texts);
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandRotateSelectionContentsForward extends CommandRotateSelectionContents {
+  keys = ['<a-)>'];
+  protected readonly step = 1;
+}
+
+@RegisterAction
+class CommandRotateSelectionContentsBackward extends CommandRotateSelectionContents {
+  keys = ['<a-(>'];
+  protected readonly step = -1;
+}
+
+@RegisterAction
+class CommandFlipSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['<a-;>'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    vimState.cursors = vimState.cursors.map(cursor => cursor.reversed());
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandEnsureSelectionsForward extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['<a-:>'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    vimState.cursors = vimState.cursors.map(cursor => cursor.asForward());
+
+    return vimState;
+  }
+}
+
+/**
+ * Trims whitespace off both ends of every selection. Selections made only of
+ * whitespace are dropped, unless that would drop all of them.
+ */
+@RegisterAction
+class CommandTrimSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['_'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const selections: Range[] = [];
+
+    for (const cursor of vimState.cursors) {
+      const selected = cursor.getSelectedRange();
+      const text = TextEditor.getText(selected);
+      const leading = /^\s*/.exec(text)![0].length;
+      const trailing = /\s*$/.exec(text)![0].length;
+
+      if (leading === text.length) {
+        continue;
+      }
+
+      const start = TextEditor.getPositionAt(
+        TextEditor.getOffsetAt(selected.start as Position) + leading
+      );
+      const end = TextEditor.getPositionAt(
+        TextEditor.getOffsetAt(selected.end as Position) - trailing
+      );
+      const trimmed = Range.FromSelectedRange(new vscode.Range(start, end));
+
+      selections.push(cursor.isForward ? trimmed : trimmed.reversed());
+    }
+
+    if (selections.length > 0) {
+      vimState.cursors = selections;
+    }
+
+    return vimState;
+  }
+}
+
+/**
+ * Deletes the text of every selection, optionally yanking it first, and
+ * optionally enters KakInsert where the text was.
+ */
+abstract class CommandDeleteSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly yank: boolean;
+  protected abstract readonly insert: boolean;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    if (this.yank) {
+      yankSelections(vimState);
+    }
+
+    await replaceSelections(vimState, vimState.cursors.map(() => ''));
+
+    if (this.insert) {
+      await vimState.setCurrentMode(ModeName.KakInsert);
+    }
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandDeleteSelectionsAndYank extends CommandDeleteSelections {
+  keys = ['d'];
+  protected readonly yank = true;
+  protected readonly insert = false;
+}
+
+@RegisterAction
+class CommandChangeSelectionsAndYank extends CommandDeleteSelections {
+  keys = ['c'];
+  protected readonly yank = true;
+  protected readonly insert = true;
+}
+
+@RegisterAction
+class CommandDeleteSelectionsWithoutYank extends CommandDeleteSelections {
+  keys = ['<a-d>'];
+  protected readonly yank = false;
+  protected readonly insert = false;
+}
+
+@RegisterAction
+class CommandChangeSelectionsWithoutYank extends CommandDeleteSelections {
+  keys = ['<a-c>'];
+  protected readonly yank = false;
+  protected readonly insert = true;
+}
+
+/**
+ * Enters KakInsert with a cursor at a position derived from every selection.
+ */
+abstract class CommandKakInsertAtPosition extends BaseCommand {
+  modes = [ModeName.KakNormal];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  protected abstract getInsertPosition(cursor: Range): Position;
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    await vimState.setCurrentMode(ModeName.KakInsert);
+
+    vimState.cursors = vimState.cursors.map(cursor => {
+      const insertPosition = this.getInsertPosition(cursor);
+      return new Range(insertPosition, insertPosition);
+    });
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakInsertAfterSelection extends CommandKakInsertAtPosition {
+  keys = ['a'];
+
+  protected getInsertPosition(cursor: Range): Position {
+    return Position.FromVSCodePosition(cursor.getSelectedRange().end);
+  }
+}
+
+@RegisterAction
+class CommandKakInsertAtLineBegin extends CommandKakInsertAtPosition {
+  keys = ['I'];
+
+  protected getInsertPosition(cursor: Range): Position {
+    return getSelectionBegin(cursor).getLineBegin();
+  }
+}
+
+@RegisterAction
+class CommandKakInsertAtLineEnd extends CommandKakInsertAtPosition {
+  keys = ['A'];
+
+  protected getInsertPosition(cursor: Range): Position {
+    return getSelectionEnd(cursor).getLineEnd();
+  }
+}
+
+/**
+ * Opens `count` new lines below (or above) every selection and enters KakInsert
+ * with a cursor on each of them. New lines copy the indentation of the line
+ * they were opened from when `autoindent` is set.
+ */
+abstract class CommandKakOpenLines extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly below: boolean;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const count = vimState.recordedState.count || 1;
+    const lines = Array.from(
+      new Set(
+        vimState.cursors.map(cursor =>
+          this.below ? getSelectionEnd(cursor).line : getSelectionBegin(cursor).line
+        )
+      )
+    ).sort((a, b) => a - b);
+    const indents = lines.map(line =>
+      configuration.autoindent
+        ? TextEditor.getLineAt(new Position(line, 0)).text.match(/^\s*/)![0]
+        : ''
+    );
+
+    await vimState.editor.edit(edit => {
+      lines.forEach((line, i) => {
+        if (this.below) {
+          edit.insert(new Position(line, 0).getLineEnd(), ('\n' + indents[i]).repeat(count));
+        } else {
+          edit.insert(new Position(line, 0), (indents[i] + '\n').repeat(count));
+        }
+      });
+    });
+
+    // Lines opened for earlier selections shift the ones that come after them
+    const cursors: Range[] = [];
+    lines.forEach((line, i) => {
+      const firstNewLine = line + i * count + (this.below ? 1 : 0);
+      for (let j = 0; j < count; j++) {
+        const cursor = new Position(firstNewLine + j, indents[i].length);
+        cursors.push(new Range(cursor, cursor));
+      }
+    });
+
+    await vimState.setCurrentMode(ModeName.KakInsert);
+    vimState.cursors = cursors;
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakOpenLinesBelow extends CommandKakOpenLines {
+  keys = ['o'];
+  protected readonly below = true;
+}
+
+@RegisterAction
+class CommandKakOpenLinesAbove extends CommandKakOpenLines {
+  keys = ['O'];
+  protected readonly below = false;
+}
+
+@RegisterAction
+class CommandYankSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['y'];
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    yankSelections(vimState);
+
+    return vimState;
+  }
+}
+
+/**
+ * Pastes register entries onto the selections and selects the pasted text.
+ * Selections take one entry each, reusing entries in order when there are
+ * more selections than entries, unless `all` is set, in which case every
+ * selection gets every entry and each pasted entry is selected.
+ */
+abstract class CommandKakPaste extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly all: boolean;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  /**
+   * Where to paste `text` for this selection.
+   */
+  protected abstract getPasteRange(cursor: Range, text: string): vscode.Range;
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const entries = await Register.getEntriesByKey(vimState.recordedState.registerName);
+    if (entries.every(entry => entry.length === 0)) {
+      return vimState;
+    }
+
+    const count = this.all ? 1 : vimState.recordedState.count || 1;
+    const edits = vimState.cursors.map((cursor, i) => {
+      const pasted = this.all ? entries : [entries[i % entries.length].repeat(count)];
+      const text = pasted.join('');
+      const range = this.getPasteRange(cursor, text);
+
+      const spans: Span[] = [];
+      let offset = 0;
+      for (const entry of pasted) {
+        if (entry.length > 0 || !this.all) {
+          spans.push([offset, offset + entry.length]);
+        }
+        offset += entry.length;
+      }
+
+      // There is no line after the last one to paste lines onto, so make one
+      if (text.endsWith('\n') && range.start.line >= TextEditor.getLineCount()) {
+        const lastLineEnd = new Position(range.start.line - 1, 0).getLineEnd();
+        const shiftedSpans = spans.map(
+          ([start, end]): Span => [start + 1, Math.min(end + 1, text.length)]
+        );
+        return {
+          range: new vscode.Range(lastLineEnd, lastLineEnd),
+          text: '\n' + text.slice(0, -1),
+          spans: shiftedSpans,
+        };
+      }
+
+      return { range, text, spans };
+    });
+
+    vimState.cursors = await applySelectionEdits(vimState, edits);
+
+    return vimState;
+  }
+}
+
+/**
+ * Pastes after the selection, or on the line below it when the text ends in
+ * a line break.
+ */
+abstract class CommandKakPasteAfter extends CommandKakPaste {
+  protected getPasteRange(cursor: Range, text: string): vscode.Range {
+    const position = text.endsWith('\n')
+      ? new Position(getSelectionEnd(cursor).line + 1, 0)
+      : cursor.getSelectedRange().end;
+    return new vscode.Range(position, position);
+  }
+}
+
+/**
+ * Pastes before the selection, or on the line above it when the text ends in
+ * a line break.
+ */
+abstract class CommandKakPasteBefore extends CommandKakPaste {
+  protected getPasteRange(cursor: Range, text: string): vscode.Range {
+    const position = text.endsWith('\n')
+      ? getSelectionBegin(cursor).getLineBegin()
+      : getSelectionBegin(cursor);
+    return new vscode.Range(position, position);
+  }
+}
+
+/**
+ * Replaces the selection with the pasted text.
+ */
+abstract class CommandKakReplaceWithPaste extends CommandKakPaste {
+  protected getPasteRange(cursor: Range, text: string): vscode.Range {
+    return cursor.getSelectedRange();
+  }
+}
+
+@RegisterAction
+class CommandKakPasteAfterSelection extends CommandKakPasteAfter {
+  keys = ['p'];
+  protected readonly all = false;
+}
+
+@RegisterAction
+class CommandKakPasteAllAfterSelection extends CommandKakPasteAfter {
+  keys = ['<a-p>'];
+  protected readonly all = true;
+}
+
+@RegisterAction
+class CommandKakPasteBeforeSelection extends CommandKakPasteBefore {
+  keys = ['P'];
+  protected readonly all = false;
+}
+
+@RegisterAction
+class CommandKakPasteAllBeforeSelection extends CommandKakPasteBefore {
+  keys = ['<a-P>'];
+  protected readonly all = true;
+}
+
+@RegisterAction
+class CommandKakReplaceSelectionWithPaste extends CommandKakReplaceWithPaste {
+  keys = ['R'];
+  protected readonly all = false;
+}
+
+@RegisterAction
+class CommandKakReplaceSelectionWithPasteAll extends CommandKakReplaceWithPaste {
+  keys = ['<a-R>'];
+  protected readonly all = true;
+}
+
+/**
+ * Opens the command line for Kakoune commands. Like in Normal, a count starts
+ * it with a line range, which makes the line an Ex command.
+ */
+@RegisterAction
+class CommandShowKakCommandLine extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = [':'];
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const count = vimState.recordedState.count;
+    vimState.currentCommandlineText = count ? `.,.+${count - 1}` : '';
+    vimState.statusBarCursorCharacterPos = vimState.currentCommandlineText.length;
+
+    commandLine.previousMode = vimState.currentMode;
+    commandLine.isKakoune = true;
+    await vimState.setCurrentMode(ModeName.CommandlineInProgress);
+    commandLine.commandlineHistoryIndex = commandLine.historyEntries.length;
+
+    return vimState;
+  }
+}
+
+/**
+ * Opens a prompt for a shell command which, once accepted, is run once for
+ * every selection with the selected text on its standard input.
+ */
+abstract class CommandShellPrompt extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly label: string;
+
+  /**
+   * Whether a command exiting with a non-zero status is an error, which
+   * leaves the buffer untouched.
+   */
+  protected readonly requiresSuccess: boolean = true;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  protected abstract applyResults(vimState: VimState, results: IShellFilterResult[]): Promise<void>;
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    // The prompt is accepted by a later action, once these have been reset
+    const count = vimState.recordedState.count;
+    const registerName = vimState.recordedState.registerName;
+
+    commandLine.previousMode = vimState.currentMode;
+    commandLine.prompt = {
+      label: this.label,
+      accept: (text, state) => this.runShellCommand(text, state, count, registerName),
+    };
+    vimState.currentCommandlineText = '';
+    vimState.statusBarCursorCharacterPos = 0;
+    await vimState.setCurrentMode(ModeName.CommandlineInProgress);
+
+    return vimState;
+  }
+
+  private async runShellCommand(
+    command: string,
+    vimState: VimState,
+    count: number,
+    registerName: string
+  ): Promise<void> {
+    if (command.trim() === '') {
+      return;
+    }
+
+    const results: IShellFilterResult[] = [];
+    try {
+      for (const cursor of vimState.cursors) {
+        const env = getShellEnvironment(vimState, cursor, count, registerName);
+        results.push(await executeShellFilter(command, env.kak_selection, env));
+      }
+    } catch (e) {
+      StatusBar.Set(
+        `Failed to run shell command: ${e.message}`,
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+      return;
+    }
+
+    const failure = results.find(result => result.exitCode !== 0);
+    if (this.requiresSuccess && failure !== undefined) {
+      const stderr = failure.stderr.trim().split('\n')[0];
+      StatusBar.Set(
+        `Shell returned ${failure.exitCode}${stderr ? `: ${stderr}` : ''}`,
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+      return;
+    }
+
+    await this.applyResults(vimState, results);
+  }
+}
+
+@RegisterAction
+class CommandPipeSelections extends CommandShellPrompt {
+  keys = ['|'];
+  protected readonly label = 'pipe:';
+
+  protected async applyResults(vimState: VimState, results: IShellFilterResult[]): Promise<void> {
+    await replaceSelections(vimState, results.map(result => result.stdout));
+  }
+}
+
+@RegisterAction
+class CommandPipeSelectionsIgnoringOutput extends CommandShellPrompt {
+  keys = ['<a-|>'];
+  protected readonly label = 'pipe (ignore output):';
+
+  protected async applyResults(vimState: VimState, results: IShellFilterResult[]): Promise<void> {
+    // Only the side effects of the command matter
+  }
+}
+
+/**
+ * Inserts the output of the command next to each selection, then selects it.
+ */
+abstract class CommandInsertShellOutput extends CommandShellPrompt {
+  protected abstract getInsertPosition(cursor: Range): Position;
+
+  protected async applyResults(vimState: VimState, results: IShellFilterResult[]): Promise<void> {
+    vimState.cursors = await applySelectionEdits(
+      vimState,
+      vimState.cursors.map((cursor, i) => {
+        const position = this.getInsertPosition(cursor);
+        return {
+          range: new vscode.Range(position, position),
+          text: results[i].stdout,
+          spans: [[0, results[i].stdout.length]] as Span[],
+        };
+      })
+    );
+  }
+}
+
+@RegisterAction
+class CommandInsertShellOutputBefore extends CommandInsertShellOutput {
+  keys = ['!'];
+  protected readonly label = 'insert output:';
+
+  protected getInsertPosition(cursor: Range): Position {
+    return getSelectionBegin(cursor);
+  }
+}
+
+@RegisterAction
+class CommandAppendShellOutputAfter extends CommandInsertShellOutput {
+  keys = ['<a-!>'];
+  protected readonly label = 'append output:';
+
+  protected getInsertPosition(cursor: Range): Position {
+    return cursor.getSelectedRange().end as Position;
+  }
+}
+
+@RegisterAction
+class CommandKeepSelectionsPassingShell extends CommandShellPrompt {
+  keys = ['$'];
+  protected readonly label = 'keep pipe:';
+  protected readonly requiresSuccess = false;
+
+  protected async applyResults(vimState: VimState, results: IShellFilterResult[]): Promise<void> {
+    const selections = vimState.cursors.filter((_, i) => results[i].exitCode === 0);
+    if (selections.length === 0) {
+      StatusBar.Set(
+        'No selections remaining',
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+    } else {
+      vimState.cursors = selections;
+    }
+  }
+}
+
+/**
+ * Replays the last insertion or selection recorded by KakRepeatState on the
+ * current selections, `count` times.
+ */
+abstract class CommandKakRepeat extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  runsOnceForEachCountPrefix = true;
+  protected abstract readonly repeat: 'insert' | 'selection';
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    vimState.recordedState.transformations.push({
+      type: 'kakRepeat',
+      repeat: this.repeat,
+    });
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakRepeatInsert extends CommandKakRepeat {
+  keys = ['.'];
+  protected readonly repeat = 'insert';
+}
+
+@RegisterAction
+class CommandKakRepeatSelection extends CommandKakRepeat {
+  keys = ['<a-.>'];
+  protected readonly repeat = 'selection';
+}
+
+/**
+ * Moves through the undo tree, then puts a selection on every place the undone
+ * or redone step started from.
+ */
+abstract class CommandKakMoveInHistory extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  protected abstract readonly failureMessage: string;
+
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  protected abstract move(vimState: VimState, count: number): Promise<Position[] | undefined>;
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const newPositions = await this.move(vimState, vimState.recordedState.count || 1);
+
+    if (newPositions === undefined) {
+      StatusBar.Set(this.failureMessage, vimState.currentMode, vimState.isRecordingMacro, true);
+    } else {
+      vimState.cursors = newPositions.map(x => new Range(x, x));
+      vimState.mainSelectionIndex = 0;
+    }
+
+    vimState.alteredHistory = true;
+
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakUndo extends CommandKakMoveInHistory {
+  keys = ['u'];
+  protected readonly failureMessage = 'Nothing left to undo';
+
+  protected async move(vimState: VimState, count: number): Promise<Position[] | undefined> {
+    let newPositions: Position[] | undefined;
+    for (let i = 0; i < count; i++) {
+      const positions = await vimState.historyTracker.goBackHistoryStep();
+      if (positions === undefined) {
+        break;
+      }
+      newPositions = positions;
+    }
+    return newPositions;
+  }
+}
+
+@RegisterAction
+class CommandKakRedo extends CommandKakMoveInHistory {
+  keys = ['U'];
+  protected readonly failureMessage = 'Nothing left to redo';
+
+  protected async move(vimState: VimState, count: number): Promise<Position[] | undefined> {
+    let newPositions: Position[] | undefined;
+    for (let i = 0; i < count; i++) {
+      const positions = await vimState.historyTracker.goForwardHistoryStep();
+      if (positions === undefined) {
+        break;
+      }
+      newPositions = positions;
+    }
+    return newPositions;
+  }
+}
+
+@RegisterAction
+class CommandKakMoveBackwardInHistory extends CommandKakMoveInHistory {
+  keys = ['<a-u>'];
+  protected readonly failureMessage = 'Already at the oldest change';
+
+  protected move(vimState: VimState, count: number): Promise<Position[] | undefined> {
+    return vimState.historyTracker.goChronologically(-count);
+  }
+}
+
+@RegisterAction
+class CommandKakMoveForwardInHistory extends CommandKakMoveInHistory {
+  keys = ['<a-U>'];
+  protected readonly failureMessage = 'Already at the newest change';
+
+  protected move(vimState: VimState, count: number): Promise<Position[] | undefined> {
+    return vimState.historyTracker.goChronologically(count);
+  }
+}
+
+@RegisterAction
+class CommandKakGotoLastBuffer extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['g', 'a'];
+  description = 'last buffer';
+  isJump = true;
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    await vscode.commands.executeCommand('workbench.action.openPreviousRecentlyUsedEditorInGroup');
+    return vimState;
+  }
+}
+
+/**
+ * A view command, which scrolls without touching the selections. In KakNormal
+ * `v` followed by its key runs it once, while each command has a subclass for
+ * locked view mode that takes the key alone.
+ */
+abstract class CommandKakView extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const count = vimState.recordedState.count || 1;
+    vimState.postponedCodeViewChanges.push(...(await this.getViewChanges(vimState, count)));
+    return vimState;
+  }
+
+  protected abstract getViewChanges(vimState: VimState, count: number): Promise<ViewChange[]>;
+}
+
+abstract class CommandKakRevealLine extends CommandKakView {
+  protected abstract at: 'top' | 'center' | 'bottom';
+
+  protected async getViewChanges(vimState: VimState): Promise<ViewChange[]> {
+    return [
+      {
+        command: 'revealLine',
+        args: { lineNumber: vimState.mainSelection.stop.line, at: this.at },
+      },
+    ];
+  }
+}
+
+@RegisterAction
+class CommandKakViewCenter extends CommandKakRevealLine {
+  keys = ['v', 'c'];
+  description = 'center cursor';
+  protected at: 'center' = 'center';
+}
+
+@RegisterAction
+class CommandKakViewCenterLocked extends CommandKakViewCenter {
+  modes = [ModeName.KakView];
+  keys = ['c'];
+}
+
+@RegisterAction
+class CommandKakViewCenterAlias extends CommandKakViewCenter {
+  keys = ['v', 'v'];
+}
+
+@RegisterAction
+class CommandKakViewCenterAliasLocked extends CommandKakViewCenterAlias {
+  modes = [ModeName.KakView];
+  keys = ['v'];
+}
+
+@RegisterAction
+class CommandKakViewTop extends CommandKakRevealLine {
+  keys = ['v', 't'];
+  description = 'cursor on top';
+  protected at: 'top' = 'top';
+}
+
+@RegisterAction
+class CommandKakViewTopLocked extends CommandKakViewTop {
+  modes = [ModeName.KakView];
+  keys = ['t'];
+}
+
+@RegisterAction
+class CommandKakViewBottom extends CommandKakRevealLine {
+  keys = ['v', 'b'];
+  description = 'cursor on bottom';
+  protected at: 'bottom' = 'bottom';
+}
+
+@RegisterAction
+class CommandKakViewBottomLocked extends CommandKakViewBottom {
+  modes = [ModeName.KakView];
+  keys = ['b'];
+}
+
+abstract class CommandKakScrollVertically extends CommandKakView {
+  protected abstract to: 'up' | 'down';
+
+  protected async getViewChanges(vimState: VimState, count: number): Promise<ViewChange[]> {
+    return [
+      {
+        command: 'editorScroll',
+        args: { to: this.to, by: 'line', value: count, revealCursor: false },
+      },
+    ];
+  }
+}
+
+@RegisterAction
+class CommandKakScrollDown extends CommandKakScrollVertically {
+  keys = ['v', 'j'];
+  description = 'scroll down';
+  protected to: 'down' = 'down';
+}
+
+@RegisterAction
+class CommandKakScrollDownLocked extends CommandKakScrollDown {
+  modes = [ModeName.KakView];
+  keys = ['j'];
+}
+
+@RegisterAction
+class CommandKakScrollUp extends CommandKakScrollVertically {
+  keys = ['v', 'k'];
+  description = 'scroll up';
+  protected to: 'up' = 'up';
+}
+
+@RegisterAction
+class CommandKakScrollUpLocked extends CommandKakScrollUp {
+  modes = [ModeName.KakView];
+  keys = ['k'];
+}
+
+abstract class CommandKakScrollHorizontally extends CommandKakView {
+  protected abstract command: 'scrollLeft' | 'scrollRight';
+
+  protected async getViewChanges(vimState: VimState, count: number): Promise<ViewChange[]> {
+    // Older versions of Code can't scroll sideways
+    const commands = await vscode.commands.getCommands(true);
+    if (!commands.includes(this.command)) {
+      StatusBar.Set(
+        'Horizontal scrolling is not supported by this version of Code',
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+      return [];
+    }
+
+    return Array.from({ length: count }, () => ({ command: this.command, args: undefined }));
+  }
+}
+
+@RegisterAction
+class CommandKakScrollLeft extends CommandKakScrollHorizontally {
+  keys = ['v', 'h'];
+  description = 'scroll left';
+  protected command: 'scrollLeft' = 'scrollLeft';
+}
+
+@RegisterAction
+class CommandKakScrollLeftLocked extends CommandKakScrollLeft {
+  modes = [ModeName.KakView];
+  keys = ['h'];
+}
+
+@RegisterAction
+class CommandKakScrollRight extends CommandKakScrollHorizontally {
+  keys = ['v', 'l'];
+  description = 'scroll right';
+  protected command: 'scrollRight' = 'scrollRight';
+}
+
+@RegisterAction
+class CommandKakScrollRightLocked extends CommandKakScrollRight {
+  modes = [ModeName.KakView];
+  keys = ['l'];
+}
+
+@RegisterAction
+class CommandKakLockView extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['V'];
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    await vimState.setCurrentMode(ModeName.KakView);
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakUnlockView extends BaseCommand {
+  modes = [ModeName.KakView];
+  keys = ['<Esc>'];
+  description = 'exit view mode';
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    await vimState.setCurrentMode(ModeName.KakNormal);
+    return vimState;
+  }
+}
+
+/**
+ * The register that `Z` and `z` use, which is `^` unless one was given.
+ */
+function getSelectionRegister(vimState: VimState): string {
+  return vimState.recordedState.actionsRun.some(action => action instanceof CommandRegister)
+    ? vimState.recordedState.registerName
+    : '^';
+}
+
+function getSelectionLength(selection: Range): number {
+  return (
+    TextEditor.getOffsetAt(getSelectionEnd(selection)) -
+    TextEditor.getOffsetAt(getSelectionBegin(selection))
+  );
+}
+
+/**
+ * Keeps the direction of `selection` while changing what it covers.
+ */
+function withBounds(selection: Range, begin: Position, end: Position): Range {
+  return selection.isForward ? new Range(begin, end) : new Range(end, begin);
+}
+
+/**
+ * Ways to pair up two selections, by the key that picks them after `<a-z>` or
+ * `<a-Z>`.
+ */
+const selectionCombinations: { [key: string]: (first: Range, second: Range) => Range } = {
+  u: (first, second) =>
+    withBounds(
+      first,
+      Position.EarlierOf(getSelectionBegin(first), getSelectionBegin(second)),
+      Position.LaterOf(getSelectionEnd(first), getSelectionEnd(second))
+    ),
+  i: (first, second) => {
+    const begin = Position.LaterOf(getSelectionBegin(first), getSelectionBegin(second));
+    const end = Position.EarlierOf(getSelectionEnd(first), getSelectionEnd(second));
+    return end.isBefore(begin) ? first : withBounds(first, begin, end);
+  },
+  '<': (first, second) => (second.cursor.isBefore(first.cursor) ? second : first),
+  '>': (first, second) => (second.cursor.isAfter(first.cursor) ? second : first),
+  '+': (first, second) => (getSelectionLength(second) > getSelectionLength(first) ? second : first),
+  '-': (first, second) => (getSelectionLength(second) < getSelectionLength(first) ? second : first),
+};
+
+/**
+ * Combines two lists of selections. `a` appends the second list to the first,
+ * every other combination pairs the selections up in order.
+ */
+function combineSelections(key: string, first: Range[], second: Range[]): Range[] {
+  if (key === 'a') {
+    return first.concat(second);
+  }
+
+  const combine = selectionCombinations[key];
+  if (combine === undefined) {
+    throw new Error(`no such combination: ${key}`);
+  }
+  if (first.length !== second.length) {
+    throw new Error("the two selection lists don't have the same number of elements");
+  }
+
+  return first.map((selection, i) => combine(selection, second[i]));
+}
+
+/**
+ * Gets the selections saved in `register` for the current file, or reports why
+ * there are none.
+ */
+function getSelectionSet(vimState: VimState, register: string): ISelectionSet | undefined {
+  const selectionSet = Register.getSelectionSet(register);
+
+  let error: string | undefined;
+  if (selectionSet === undefined) {
+    error = `Register '${register}' has no saved selections`;
+  } else if (selectionSet.fileName !== vimState.editor.document.fileName) {
+    error = `Register '${register}' has selections of another file`;
+  }
+
+  if (error !== undefined) {
+    StatusBar.Set(error, vimState.currentMode, vimState.isRecordingMacro, true);
+    return undefined;
+  }
+  return selectionSet;
+}
+
+@RegisterAction
+class CommandKakSaveSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['Z'];
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    Register.putSelectionSet(getSelectionRegister(vimState), {
+      fileName: vimState.editor.document.fileName,
+      selections: vimState.cursors.slice(0),
+      mainSelectionIndex: vimState.mainSelectionIndex,
+    });
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakRestoreSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  keys = ['z'];
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const selectionSet = getSelectionSet(vimState, getSelectionRegister(vimState));
+    if (selectionSet !== undefined) {
+      vimState.cursors = selectionSet.selections.slice(0);
+      vimState.mainSelectionIndex = selectionSet.mainSelectionIndex;
+    }
+    return vimState;
+  }
+}
+
+/**
+ * Combines the current selections with the saved ones, using the operation
+ * picked by the key after the command.
+ */
+abstract class CommandKakCombineSelections extends BaseCommand {
+  modes = [ModeName.KakNormal];
+  runsOnceForEveryCursor() {
+    return false;
+  }
+
+  protected abstract combine(
+    vimState: VimState,
+    register: string,
+    selectionSet: ISelectionSet,
+    key: string
+  ): void;
+
+  public async exec(position: Position, vimState: VimState): Promise<VimState> {
+    const register = getSelectionRegister(vimState);
+    const selectionSet = getSelectionSet(vimState, register);
+    if (selectionSet === undefined) {
+      return vimState;
+    }
+
+    try {
+      this.combine(vimState, register, selectionSet, this.keysPressed[1]);
+    } catch (e) {
+      StatusBar.Set(
+        `Cannot combine selections: ${e.message}`,
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+    }
+    return vimState;
+  }
+}
+
+@RegisterAction
+class CommandKakCombineIntoSelections extends CommandKakCombineSelections {
+  keys = ['<a-z>', '<character>'];
+
+  protected combine(
+    vimState: VimState,
+    register: string,
+    selectionSet: ISelectionSet,
+    key: string
+  ): void {
+    vimState.cursors = combineSelections(key, vimState.cursors, selectionSet.selections);
+  }
+}
+
+@RegisterAction
+class CommandKakCombineIntoRegister extends CommandKakCombineSelections {
+  keys = ['<a-Z>', '<character>'];
+
+  protected combine(
+    vimState: VimState,
+    register: string,
+    selectionSet: ISelectionSet,
+    key: string
+  ): void {
+    Register.putSelectionSet(register, {
+      ...selectionSet,
+      selections: combineSelections(key, selectionSet.selections, vimState.cursors),
+    });
+  }
+}
@@ -231,6 +231,154 @@ class MoveLineEnd extends BaseMovement {
   }
 }
 
+/**
+ * A target of the goto menu. `g` followed by its key moves the selections to
+ * the target, `G` extends them to it. A count before `g` or `G` goes to that
+ * line instead.
+ */
+abstract class KakGotoMovement extends BaseMovement {
+  modes = [ModeName.KakNormal];
+  isJump = true;
+
+  public async execActionWithCount(
+    position: Position,
+    vimState: VimState,
+    count: number
+  ): Promise<Position> {
+    const target = this.getTarget(position, vimState, count);
+    if (this.keysPressed[0] === 'g') {
+      vimState.cursorStartPosition = target;
+    }
+    return target;
+  }
+
+  protected abstract getTarget(position: Position, vimState: VimState, count: number): Position;
+}
+
+/**
+ * The visible lines of the editor, as the first and last one.
+ */
+function getVisibleLines(vimState: VimState): [number, number] {
+  const ranges = vimState.editor.visibleRanges;
+  return [ranges[0].start.line, ranges[ranges.length - 1].end.line];
+}
+
+@RegisterAction
+class GotoLine extends KakGotoMovement {
+  keys = [['g'], ['G']];
+
+  public doesActionApply(vimState: VimState, keysPressed: string[]): boolean {
+    return super.doesActionApply(vimState, keysPressed) && vimState.recordedState.count > 0;
+  }
+
+  protected getTarget(position: Position, vimState: VimState, count: number): Position {
+    return new Position(Math.min(count, position.getDocumentEnd().line + 1) - 1, 0);
+  }
+}
+
+@RegisterAction
+class GotoLineBegin extends KakGotoMovement {
+  keys = [['g', 'h'], ['G', 'h']];
+  description = 'line begin';
+
+  protected getTarget(position: Position): Position {
+    return position.getLineBegin();
+  }
+}
+
+@RegisterAction
+class GotoLineEnd extends KakGotoMovement {
+  keys = [['g', 'l'], ['G', 'l']];
+  description = 'line end';
+
+  protected getTarget(position: Position): Position {
+    return position.getLineEnd();
+  }
+}
+
+@RegisterAction
+class GotoLineNonBlank extends KakGotoMovement {
+  keys = [['g', 'i'], ['G', 'i']];
+  description = 'line non blank start';
+
+  protected getTarget(position: Position): Position {
+    return position.getFirstLineNonBlankChar();
+  }
+}
+
+@RegisterAction
+class GotoBufferTop extends KakGotoMovement {
+  keys = [['g', 'g'], ['G', 'g'], ['g', 'k'], ['G', 'k']];
+  description = 'buffer top';
+
+  protected getTarget(position: Position): Position {
+    return position.getDocumentBegin();
+  }
+}
+
+@RegisterAction
+class GotoBufferBottom extends KakGotoMovement {
+  keys = [['g', 'j'], ['G', 'j']];
+  description = 'buffer bottom';
+
+  protected getTarget(position: Position): Position {
+    return position.getDocumentEnd().getLineBegin();
+  }
+}
+
+@RegisterAction
+class GotoBufferEnd extends KakGotoMovement {
+  keys = [['g', 'e'], ['G', 'e']];
+  description = 'buffer end';
+
+  protected getTarget(position: Position): Position {
+    return position.getDocumentEnd();
+  }
+}
+
+@RegisterAction
+class GotoWindowTop extends KakGotoMovement {
+  keys = [['g', 't'], ['G', 't']];
+  description = 'window top';
+
+  protected getTarget(position: Position, vimState: VimState): Position {
+    const [top] = getVisibleLines(vimState);
+    return new Position(top, 0);
+  }
+}
+
+@RegisterAction
+class GotoWindowCenter extends KakGotoMovement {
+  keys = [['g', 'c'], ['G', 'c']];
+  description = 'window center';
+
+  protected getTarget(position: Position, vimState: VimState): Position {
+    const [top, bottom] = getVisibleLines(vimState);
+    return new Position(Math.floor((top + bottom) / 2), 0);
+  }
+}
+
+@RegisterAction
+class GotoWindowBottom extends KakGotoMovement {
+  keys = [['g', 'b'], ['G', 'b']];
+  description = 'window bottom';
+
+  protected getTarget(position: Position, vimState: VimState): Position {
+    const [, bottom] = getVisibleLines(vimState);
+    return new Position(bottom, 0);
+  }
+}
+
+@RegisterAction
+class GotoLastChange extends KakGotoMovement {
+  keys = [['g', '.'], ['G', '.']];
+  description = 'last buffer change';
+
+  protected getTarget(position: Position, vimState: VimState): Position {
+    return vimState.historyTracker.getLastChangeEndPosition() || position;
+  }
+}
+
 // @RegisterAction
 // export class name extends BaseMovement {
 //   modes = [ModeName.KakNormal];
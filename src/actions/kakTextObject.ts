@@ -0,0 +1,341 @@
+import { PairMatcher } from '../common/matching/matcher';
+import { QuoteMatcher } from '../common/matching/quoteMatcher';
+import { Position } from '../common/motion/position';
+import { Range } from '../common/motion/range';
+import { VimState } from '../state/vimState';
+import { TextEditor } from '../textEditor';
+import { IMovement } from './baseMotion';
+import {
+  IndentObjectMatch,
+  SelectABigWord,
+  SelectInnerBigWord,
+  SelectInnerParagraph,
+  SelectInnerSentence,
+  SelectInnerWord,
+  SelectParagraph,
+  SelectSentence,
+  SelectWord,
+} from './textobject';
+
+/**
+ * Finds the text object around `position`, or only its inside when `inner` is
+ * set, as a forward range from its first to its last character. Returns
+ * undefined when there is no such object there.
+ */
+export type KakObjectFinder = (
+  position: Position,
+  inner: boolean,
+  vimState: VimState
+) => Promise<Range | undefined>;
+
+interface ITextObjectAction {
+  execAction(position: Position, vimState: VimState): Promise<IMovement>;
+}
+
+/**
+ * Reuses the Vim `a`/`i` text objects.
+ */
+function textObject(whole: ITextObjectAction, inner: ITextObjectAction): KakObjectFinder {
+  return async (position, isInner, vimState) => {
+    const { start, stop } = await (isInner ? inner : whole).execAction(position, vimState);
+    return stop.isBefore(start) ? undefined : new Range(start, stop);
+  };
+}
+
+/**
+ * A block surrounded by `open` and `close`, which may be nested.
+ */
+function pairObject(open: string, close: string): KakObjectFinder {
+  return async (position, inner) => {
+    const char = TextEditor.getCharAt(position);
+
+    const openPosition = char === open ? position : PairMatcher.nextPairedChar(position, close);
+    if (openPosition === undefined) {
+      return undefined;
+    }
+
+    const closePosition =
+      char === close ? position : PairMatcher.nextPairedChar(openPosition, open);
+    if (closePosition === undefined) {
+      return undefined;
+    }
+
+    if (!inner) {
+      return new Range(openPosition, closePosition);
+    }
+
+    const start = openPosition.getRightThroughLineBreaks(true);
+    const stop = closePosition.getLeftThroughLineBreaks(true);
+    return stop.isBefore(start) ? undefined : new Range(start, stop);
+  };
+}
+
+/**
+ * A string surrounded by `quote` on a single line, skipping escaped quotes.
+ */
+function quoteObject(quote: string): KakObjectFinder {
+  return async (position, inner) => {
+    const quoteMatcher = new QuoteMatcher(quote, TextEditor.getLineAt(position).text);
+    let start = quoteMatcher.findOpening(position.character);
+    let end = quoteMatcher.findClosing(start + 1);
+
+    if (end < start && start === position.character) {
+      // On the closing quote, so the string is behind us
+      end = start;
+      start = quoteMatcher.findOpening(end - 1);
+    }
+
+    if (start === -1 || end === -1 || end <= start || end < position.character) {
+      return undefined;
+    }
+
+    if (inner) {
+      start++;
+      end--;
+    }
+
+    return end < start
+      ? undefined
+      : new Range(new Position(position.line, start), new Position(position.line, end));
+  };
+}
+
+/**
+ * The run of blank characters around the position. The whole object also spans
+ * line breaks.
+ */
+async function findWhitespace(position: Position, inner: boolean): Promise<Range | undefined> {
+  const text = TextEditor.getText();
+  const blank = inner ? /[ \t]/ : /\s/;
+
+  let start = TextEditor.getOffsetAt(position);
+  if (!blank.test(text.charAt(start))) {
+    return undefined;
+  }
+
+  let end = start;
+  while (start > 0 && blank.test(text[start - 1])) {
+    start--;
+  }
+  while (end + 1 < text.length && blank.test(text[end + 1])) {
+    end++;
+  }
+
+  return new Range(TextEditor.getPositionAt(start), TextEditor.getPositionAt(end));
+}
+
+/**
+ * The number under the position. The whole object includes its sign and
+ * fractional part.
+ */
+async function findNumber(position: Position, inner: boolean): Promise<Range | undefined> {
+  const text = TextEditor.getLineAt(position).text;
+  const regex = inner ? /\d+/g : /-?\d+(\.\d+)?/g;
+
+  for (let match = regex.exec(text); match; match = regex.exec(text)) {
+    const end = match.index + match[0].length - 1;
+    if (match.index <= position.character && position.character <= end) {
+      return new Range(new Position(position.line, match.index), new Position(position.line, end));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The lines around the position that are indented at least as much as it. The
+ * inner object leaves out blank lines at either end.
+ */
+async function findIndent(position: Position, inner: boolean): Promise<Range | undefined> {
+  const firstValidLine = IndentObjectMatch.findFirstValidLine(position);
+  const indent = TextEditor.getLineAt(new Position(firstValidLine, 0))
+    .firstNonWhitespaceCharacterIndex;
+
+  let startLine = IndentObjectMatch.findRangeStartOrEnd(firstValidLine, indent, -1);
+  let endLine = IndentObjectMatch.findRangeStartOrEnd(firstValidLine, indent, 1);
+
+  if (inner) {
+    while (
+      startLine < endLine &&
+      TextEditor.getLineAt(new Position(startLine, 0)).isEmptyOrWhitespace
+    ) {
+      startLine++;
+    }
+    while (
+      endLine > startLine &&
+      TextEditor.getLineAt(new Position(endLine, 0)).isEmptyOrWhitespace
+    ) {
+      endLine--;
+    }
+  }
+
+  return new Range(new Position(startLine, 0), new Position(endLine, 0).getLineEnd());
+}
+
+/**
+ * An argument between the commas or brackets around the position. The whole
+ * object includes the comma after it, or before it for the last argument.
+ */
+async function findArgument(position: Position, inner: boolean): Promise<Range | undefined> {
+  const text = TextEditor.getText();
+  const offset = TextEditor.getOffsetAt(position);
+
+  let start = offset;
+  let depth = 0;
+  for (; start > 0; start--) {
+    const char = text[start - 1];
+    if (')]}'.includes(char)) {
+      depth++;
+    } else if ('([{'.includes(char) || (char === ',' && depth === 0)) {
+      if (depth === 0) {
+        break;
+      }
+      depth--;
+    }
+  }
+
+  let end = offset;
+  depth = 0;
+  for (; end < text.length; end++) {
+    const char = text[end];
+    if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) || (char === ',' && depth === 0)) {
+      if (depth === 0) {
+        break;
+      }
+      depth--;
+    }
+  }
+
+  // Arguments only exist inside brackets
+  if (start === 0 || end === text.length) {
+    return undefined;
+  }
+
+  while (start < end && /\s/.test(text[start])) {
+    start++;
+  }
+  if (inner) {
+    while (end > start && /\s/.test(text[end - 1])) {
+      end--;
+    }
+  } else if (text[end] === ',') {
+    end++;
+    while (end < text.length && /[ \t]/.test(text[end])) {
+      end++;
+    }
+  } else {
+    let before = start;
+    while (before > 0 && /\s/.test(text[before - 1])) {
+      before--;
+    }
+    if (text[before - 1] === ',') {
+      start = before - 1;
+    }
+  }
+
+  return end <= start
+    ? undefined
+    : new Range(TextEditor.getPositionAt(start), TextEditor.getPositionAt(end - 1));
+}
+
+/**
+ * A block starting with a match of the regex `open` and ending with a match of
+ * `close`, which may be nested. When both are the same, matches open and close
+ * in turn.
+ */
+export function customObject(open: string, close: string): KakObjectFinder {
+  const openRegex = new RegExp(open, 'g');
+  const closeRegex = new RegExp(close, 'g');
+
+  const findMatches = (regex: RegExp, text: string) => {
+    const matches: Array<{ start: number; end: number }> = [];
+    regex.lastIndex = 0;
+    for (let match = regex.exec(text); match; match = regex.exec(text)) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+      } else {
+        matches.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+    return matches;
+  };
+
+  return async (position, inner) => {
+    const text = TextEditor.getText();
+    const offset = TextEditor.getOffsetAt(position);
+
+    let tokens: Array<{ start: number; end: number; isOpen: boolean }>;
+    if (open === close) {
+      tokens = findMatches(openRegex, text).map((match, i) => ({ ...match, isOpen: i % 2 === 0 }));
+    } else {
+      tokens = [
+        ...findMatches(openRegex, text).map(match => ({ ...match, isOpen: true })),
+        ...findMatches(closeRegex, text).map(match => ({ ...match, isOpen: false })),
+      ].sort((a, b) => a.start - b.start);
+    }
+
+    // Pairs are closed innermost first, so the first one around the position wins
+    const opened: Array<{ start: number; end: number }> = [];
+    for (const token of tokens) {
+      if (token.isOpen) {
+        opened.push(token);
+        continue;
+      }
+
+      const pairOpen = opened.pop();
+      if (pairOpen === undefined || pairOpen.start > offset || token.end <= offset) {
+        continue;
+      }
+
+      const [start, end] = inner ? [pairOpen.end, token.start] : [pairOpen.start, token.end];
+      return end <= start
+        ? undefined
+        : new Range(TextEditor.getPositionAt(start), TextEditor.getPositionAt(end - 1));
+    }
+
+    return undefined;
+  };
+}
+
+const parentheses = pairObject('(', ')');
+const braces = pairObject('{', '}');
+const brackets = pairObject('[', ']');
+const angleBrackets = pairObject('<', '>');
+const doubleQuotes = quoteObject('"');
+const singleQuotes = quoteObject("'");
+const graveQuotes = quoteObject('`');
+
+/**
+ * The objects of the KakNormal object menu, by the key that picks them. The
+ * custom object, `c`, needs a prompt so is handled by the menu itself.
+ */
+export const kakObjects: { [key: string]: KakObjectFinder } = {
+  b: parentheses,
+  '(': parentheses,
+  ')': parentheses,
+  B: braces,
+  '{': braces,
+  '}': braces,
+  r: brackets,
+  '[': brackets,
+  ']': brackets,
+  a: angleBrackets,
+  '<': angleBrackets,
+  '>': angleBrackets,
+  Q: doubleQuotes,
+  '"': doubleQuotes,
+  q: singleQuotes,
+  "'": singleQuotes,
+  g: graveQuotes,
+  '`': graveQuotes,
+  w: textObject(new SelectWord(), new SelectInnerWord()),
+  '<a-w>': textObject(new SelectABigWord(), new SelectInnerBigWord()),
+  s: textObject(new SelectSentence(), new SelectInnerSentence()),
+  p: textObject(new SelectParagraph(), new SelectInnerParagraph()),
+  ' ': findWhitespace,
+  i: findIndent,
+  n: findNumber,
+  u: findArgument,
+};
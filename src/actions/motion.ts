@@ -390,6 +390,7 @@ class RightArrowInReplaceMode extends ArrowsInReplaceMode {
 
 @RegisterAction
 class CommandNextSearchMatch extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['n'];
   isJump = true;
 
@@ -420,6 +421,7 @@ class CommandNextSearchMatch extends BaseMovement {
 
 @RegisterAction
 class CommandPreviousSearchMatch extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['N'];
   isJump = true;
 
@@ -461,6 +463,8 @@ export class MarkMovementBOL extends BaseMovement {
 
 @RegisterAction
 export class MarkMovement extends BaseMovement {
+  // ` changes the case of the selections in KakNormal
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['`', '<character>'];
   isJump = true;
 
@@ -575,6 +579,8 @@ class MoveRightArrowExtend extends MoveRightExtend {
 
 @RegisterAction
 class MoveRightWithSpace extends BaseMovement {
+  // <space> keeps the main selection in KakNormal
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = [' '];
 
   public async execAction(position: Position, vimState: VimState): Promise<Position> {
@@ -612,6 +618,7 @@ class MoveUpNonBlank extends BaseMovement {
 
 @RegisterAction
 class MoveDownUnderscore extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['_'];
 
   public async execActionWithCount(
@@ -625,6 +632,7 @@ class MoveDownUnderscore extends BaseMovement {
 
 @RegisterAction
 class MoveToColumn extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['|'];
 
   public async execActionWithCount(
@@ -639,6 +647,7 @@ class MoveToColumn extends BaseMovement {
 @RegisterAction
 class MoveFindForward extends BaseMovement {
   keys = ['f', '<character>'];
+  isRepeatableSelection = true;
 
   public async execActionWithCount(
     position: Position,
@@ -679,6 +688,7 @@ class MoveFindForward extends BaseMovement {
 @RegisterAction
 class MoveFindBackward extends BaseMovement {
   keys = ['F', '<character>'];
+  isRepeatableSelection = true;
 
   public async execActionWithCount(
     position: Position,
@@ -711,6 +721,7 @@ class MoveFindBackward extends BaseMovement {
 @RegisterAction
 class MoveTilForward extends BaseMovement {
   keys = ['t', '<character>'];
+  isRepeatableSelection = true;
 
   public async execActionWithCount(
     position: Position,
@@ -744,6 +755,7 @@ class MoveTilForward extends BaseMovement {
 @RegisterAction
 class MoveTilBackward extends BaseMovement {
   keys = ['T', '<character>'];
+  isRepeatableSelection = true;
 
   public async execActionWithCount(
     position: Position,
@@ -807,6 +819,7 @@ class MoveRepeatReversed extends BaseMovement {
 
 @RegisterAction
 class MoveLineEnd extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = [['$'], ['<End>'], ['<D-right>']];
   setsDesiredColumnToEOL = true;
 
@@ -819,6 +832,13 @@ class MoveLineEnd extends BaseMovement {
   }
 }
 
+@RegisterAction
+class MoveLineEndKakNormal extends MoveLineEnd {
+  // $ pipes selections through a shell command in KakNormal
+  modes = [ModeName.KakNormal];
+  keys = [['<End>'], ['<D-right>']];
+}
+
 @RegisterAction
 class MoveLineBegin extends BaseMovement {
   keys = [['0'], ['<Home>'], ['<D-left>']];
@@ -1100,6 +1120,7 @@ class MoveNextLineNonBlank extends BaseMovement {
 
 @RegisterAction
 class MoveNonBlankFirst extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['g', 'g'];
   isJump = true;
 
@@ -1119,6 +1140,7 @@ class MoveNonBlankFirst extends BaseMovement {
 
 @RegisterAction
 class MoveNonBlankLast extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['G'];
   isJump = true;
 
@@ -1265,6 +1287,7 @@ class MoveFullWordEnd extends BaseMovement {
 
 @RegisterAction
 class MoveLastWordEnd extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['g', 'e'];
 
   public async execAction(position: Position, vimState: VimState): Promise<Position> {
@@ -1274,6 +1297,7 @@ class MoveLastWordEnd extends BaseMovement {
 
 @RegisterAction
 class MoveLastFullWordEnd extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['g', 'E'];
 
   public async execAction(position: Position, vimState: VimState): Promise<Position> {
@@ -1302,6 +1326,7 @@ class MoveBeginningFullWord extends BaseMovement {
 
 @RegisterAction
 class MovePreviousSentenceBegin extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['('];
   isJump = true;
 
@@ -1312,6 +1337,7 @@ class MovePreviousSentenceBegin extends BaseMovement {
 
 @RegisterAction
 class MoveNextSentenceBegin extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = [')'];
   isJump = true;
 
@@ -1322,6 +1348,7 @@ class MoveNextSentenceBegin extends BaseMovement {
 
 @RegisterAction
 class MoveParagraphEnd extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['}'];
   isJump = true;
 
@@ -1340,6 +1367,7 @@ class MoveParagraphEnd extends BaseMovement {
 
 @RegisterAction
 class MoveParagraphBegin extends BaseMovement {
+  modes = [ModeName.Normal, ModeName.Visual, ModeName.VisualLine, ModeName.VisualBlock];
   keys = ['{'];
   isJump = true;
 
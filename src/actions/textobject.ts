@@ -510,7 +510,7 @@ export class SelectInnerParagraph extends TextObjectMovement {
   }
 }
 
-abstract class IndentObjectMatch extends TextObjectMovement {
+export abstract class IndentObjectMatch extends TextObjectMovement {
   setsDesiredColumnToEOL = true;
 
   protected includeLineAbove = false;
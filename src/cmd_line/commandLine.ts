@@ -10,6 +10,31 @@ import { configuration } from '../configuration/configuration';
 import { Register } from '../register/register';
 import { RecordedState } from '../state/recordedState';
 
+/**
+ * A prompt which takes over the command line, in place of running Ex commands.
+ */
+export interface ICommandLinePrompt {
+  /**
+   * Shown in the status bar in front of the text being entered.
+   */
+  label: string;
+
+  /**
+   * Called with the text entered once the prompt is accepted with <Enter>.
+   */
+  accept(text: string, vimState: VimState): Promise<void>;
+}
+
+/**
+ * Where a command read from a file, rather than typed, comes from, and where
+ * the errors of the file's commands are collected.
+ */
+export interface ICommandSource {
+  file: string;
+  line: number;
+  errors: string[];
+}
+
 class CommandLine {
   private _history: CommandLineHistory;
   private readonly _logger = Logger.get('CommandLine');
@@ -43,6 +68,17 @@ class CommandLine {
 
   public previousMode = ModeName.Normal;
 
+  /**
+   * Set while the command line is being used as a prompt rather than for Ex commands.
+   */
+  public prompt: ICommandLinePrompt | undefined = undefined;
+
+  /**
+   * Set while the open command line takes Kakoune commands rather than Ex
+   * commands, by whatever opened it.
+   */
+  public isKakoune = false;
+
   constructor() {
     this._history = new CommandLineHistory();
   }
@@ -51,11 +87,29 @@ class CommandLine {
     return this._history.load();
   }
 
-  public async Run(command: string, vimState: VimState): Promise<void> {
+  /**
+   * Runs an Ex command typed on the command line, or Kakoune commands read from
+   * a file when `source` is given. Commands from files stay out of the history,
+   * and have errors reported with their location.
+   */
+  public async Run(command: string, vimState: VimState, source?: ICommandSource): Promise<void> {
     if (!command || command.length === 0) {
       return;
     }
 
+    if (source !== undefined) {
+      try {
+        await parser.parseKakoune(command).execute(vimState);
+      } catch (e) {
+        const error = `${source.file}:${source.line}: ${
+          e instanceof VimError ? e.toString() : e.message
+        }`;
+        this._logger.error(error);
+        source.errors.push(error);
+      }
+      return;
+    }
+
     if (command && command[0] === ':') {
       command = command.slice(1);
     }
@@ -65,6 +119,24 @@ class CommandLine {
       return;
     }
 
+    this.record(command);
+    await this.execute(command, vimState, false);
+  }
+
+  /**
+   * Runs Kakoune commands typed on the command line. A line starting with a
+   * line range, like `%s/a/b` or `10`, is still an Ex command.
+   */
+  public async RunKakoune(command: string, vimState: VimState): Promise<void> {
+    if (!command || command.length === 0) {
+      return;
+    }
+
+    this.record(command);
+    await this.execute(command, vimState, !parser.startsWithLineRange(command));
+  }
+
+  private record(command: string): void {
     this._history.add(command);
     this._commandLineHistoryIndex = this._history.get().length;
 
@@ -74,8 +146,15 @@ class CommandLine {
       recState.commandList = command.split('');
       Register.putByKey(recState, ':', undefined, true);
     }
+  }
 
+  private async execute(command: string, vimState: VimState, isKakoune: boolean): Promise<void> {
     try {
+      if (isKakoune) {
+        await parser.parseKakoune(command).execute(vimState);
+        return;
+      }
+
       const cmd = parser.parse(command);
       const useNeovim = configuration.enableNeovim && cmd.command && cmd.command.neovimCapable();
 
@@ -0,0 +1,182 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { Position } from '../../common/motion/position';
+import { ErrorCode, VimError } from '../../error';
+import { Jump } from '../../jumps/jump';
+import { globalState } from '../../state/globalState';
+import { VimState } from '../../state/vimState';
+import * as node from '../node';
+
+export enum Buffer {
+  Switch,
+  Next,
+  Previous,
+  Delete,
+  Rename,
+}
+
+export interface IBufferCommandArguments extends node.ICommandArgs {
+  buffer: Buffer;
+  name?: string;
+}
+
+/**
+ * The buffers are the open documents, in the order they were opened.
+ */
+export function getBuffers(): vscode.TextDocument[] {
+  return vscode.workspace.textDocuments.filter(
+    document => !document.isClosed && ['file', 'untitled'].includes(document.uri.scheme)
+  );
+}
+
+/**
+ * Buffers are named by their path in the workspace.
+ */
+export function getBufferName(document: vscode.TextDocument): string {
+  return document.isUntitled ? document.fileName : vscode.workspace.asRelativePath(document.uri);
+}
+
+/**
+ * Whether the characters of `query` appear in `name` in the same order, ignoring
+ * case.
+ */
+export function isFuzzyMatch(query: string, name: string): boolean {
+  let index = 0;
+  for (const char of name.toLocaleLowerCase()) {
+    if (index < query.length && char === query[index].toLocaleLowerCase()) {
+      index++;
+    }
+  }
+
+  return index === query.length;
+}
+
+/**
+ * Finds the buffer named `name`, or else the only one `name` is a fuzzy match of.
+ */
+function findBuffer(name: string): vscode.TextDocument {
+  const buffers = getBuffers();
+  const buffer = buffers.find(document => getBufferName(document) === name);
+  if (buffer !== undefined) {
+    return buffer;
+  }
+
+  const matches = buffers.filter(document => isFuzzyMatch(name, getBufferName(document)));
+  if (matches.length > 1) {
+    throw VimError.fromCode(ErrorCode.E93);
+  } else if (matches.length === 0) {
+    throw VimError.fromCode(ErrorCode.E94);
+  }
+
+  return matches[0];
+}
+
+//
+//  Implements the buffer commands, working on the open documents
+//  https://github.com/mawww/kakoune/blob/master/doc/pages/buffers.asciidoc
+//
+export class BufferCommand extends node.CommandBase {
+  protected _arguments: IBufferCommandArguments;
+
+  constructor(args: IBufferCommandArguments) {
+    super();
+    this._name = 'buffer';
+    this._arguments = args;
+  }
+
+  get arguments(): IBufferCommandArguments {
+    return this._arguments;
+  }
+
+  /**
+   * Shows `document`, recording the switch as a jump.
+   */
+  private async switchTo(document: vscode.TextDocument, vimState: VimState): Promise<void> {
+    if (document === vimState.editor.document) {
+      return;
+    }
+
+    const from = Jump.fromStateNow(vimState);
+
+    // The jump is recorded here rather than when the active editor changes
+    globalState.jumpTracker.isJumpingThroughHistory = true;
+    const editor = await vscode.window.showTextDocument(document);
+    globalState.jumpTracker.recordJump(
+      from,
+      new Jump({
+        editor,
+        fileName: document.fileName,
+        position: Position.FromVSCodePosition(editor.selection.active),
+      })
+    );
+  }
+
+  private async cycle(vimState: VimState, offset: number): Promise<void> {
+    const buffers = getBuffers();
+    if (buffers.length === 0) {
+      return;
+    }
+
+    const index = buffers.indexOf(vimState.editor.document);
+    await this.switchTo(buffers[(index + offset + buffers.length) % buffers.length], vimState);
+  }
+
+  private async delete(vimState: VimState): Promise<void> {
+    const { name, bang } = this._arguments;
+    const document = name ? findBuffer(name) : vimState.editor.document;
+    if (document.isDirty && !bang) {
+      throw VimError.fromCode(ErrorCode.E89);
+    }
+
+    await vscode.window.showTextDocument(document);
+    await vscode.commands.executeCommand(
+      bang ? 'workbench.action.revertAndCloseActiveEditor' : 'workbench.action.closeActiveEditor'
+    );
+  }
+
+  /**
+   * Buffers are files, so renaming one moves its file. Relative names are in
+   * the workspace folder, like the names of buffers.
+   */
+  private async rename(vimState: VimState): Promise<void> {
+    const document = vimState.editor.document;
+    if (document.isUntitled || document.uri.scheme !== 'file') {
+      throw VimError.fromCode(ErrorCode.E474);
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const newUri = vscode.Uri.file(
+      path.resolve(
+        folder ? folder.uri.fsPath : path.dirname(document.fileName),
+        this._arguments.name!
+      )
+    );
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.renameFile(document.uri, newUri);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw VimError.fromCode(ErrorCode.E474);
+    }
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    switch (this._arguments.buffer) {
+      case Buffer.Switch:
+        await this.switchTo(findBuffer(this._arguments.name!), vimState);
+        break;
+      case Buffer.Next:
+        await this.cycle(vimState, 1);
+        break;
+      case Buffer.Previous:
+        await this.cycle(vimState, -1);
+        break;
+      case Buffer.Delete:
+        await this.delete(vimState);
+        break;
+      case Buffer.Rename:
+        await this.rename(vimState);
+        break;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { ErrorCode, ErrorMessage, VimError } from '../../error';
+import { VimState } from '../../state/vimState';
+import * as node from '../node';
+import * as parser from '../parser';
+import { IUserCommand, userCommands } from '../subparser';
+
+export interface IDefineCommandArguments extends node.ICommandArgs {
+  command: IUserCommand;
+}
+
+//
+//  Implements :define-command, which replaces any command of the same name
+//  https://github.com/mawww/kakoune/blob/master/doc/pages/commands.asciidoc#declaring-new-commands
+//
+export class DefineCommand extends node.CommandBase {
+  protected _arguments: IDefineCommandArguments;
+
+  constructor(args: IDefineCommandArguments) {
+    super();
+    this._name = 'define-command';
+    this._arguments = args;
+  }
+
+  get arguments(): IDefineCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(): Promise<void> {
+    userCommands.set(this._arguments.command.name, this._arguments.command);
+  }
+}
+
+export interface IUserCommandArguments extends node.ICommandArgs {
+  command: IUserCommand;
+  params: string[];
+}
+
+/**
+ * Runs the commands of a user command, whose `%arg{n}` expansions are the
+ * parameters it was given.
+ */
+export class UserCommand extends node.CommandBase {
+  protected _arguments: IUserCommandArguments;
+
+  constructor(args: IUserCommandArguments) {
+    super();
+    this._name = args.command.name;
+    this._arguments = args;
+  }
+
+  get arguments(): IUserCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const { command, params } = this._arguments;
+
+    if (params.length < command.minParams || params.length > command.maxParams) {
+      // The docstring usually tells how the command is used
+      throw new VimError(
+        ErrorCode.E474,
+        command.docstring
+          ? `${ErrorMessage[ErrorCode.E474]}. ${command.name}: ${command.docstring}`
+          : ErrorMessage[ErrorCode.E474]
+      );
+    }
+
+    await parser.parseKakoune(command.commands).execute(vimState, params);
+  }
+}
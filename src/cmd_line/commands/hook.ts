@@ -0,0 +1,53 @@
+import { hooks, IHook } from '../../hooks/hooks';
+import * as node from '../node';
+
+export interface IHookCommandArguments extends node.ICommandArgs {
+  hook: IHook;
+}
+
+//
+//  Implements :hook, which runs commands on an event
+//  https://github.com/mawww/kakoune/blob/master/doc/pages/hooks.asciidoc
+//
+export class HookCommand extends node.CommandBase {
+  protected _arguments: IHookCommandArguments;
+
+  constructor(args: IHookCommandArguments) {
+    super();
+    this._name = 'hook';
+    this._arguments = args;
+  }
+
+  get arguments(): IHookCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(): Promise<void> {
+    hooks.add(this._arguments.hook);
+  }
+}
+
+export interface IRemoveHooksCommandArguments extends node.ICommandArgs {
+  group: string;
+}
+
+//
+//  Implements :remove-hooks, which removes the hooks of a group
+//
+export class RemoveHooksCommand extends node.CommandBase {
+  protected _arguments: IRemoveHooksCommandArguments;
+
+  constructor(args: IRemoveHooksCommandArguments) {
+    super();
+    this._name = 'remove-hooks';
+    this._arguments = args;
+  }
+
+  get arguments(): IRemoveHooksCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(): Promise<void> {
+    hooks.removeGroup(this._arguments.group);
+  }
+}
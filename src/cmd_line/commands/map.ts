@@ -0,0 +1,74 @@
+import { configuration } from '../../configuration/configuration';
+import { IKeyRemapping } from '../../configuration/iconfiguration';
+import * as node from '../node';
+
+/**
+ * The Kakoune modes which can have mappings, with the configuration keys of
+ * their key bindings.
+ */
+export const mappableModes: { [mode: string]: string } = {
+  normal: 'kakNormalModeKeyBindings',
+  insert: 'kakInsertModeKeyBindings',
+};
+
+export interface IMapCommandArguments extends node.ICommandArgs {
+  mode: string;
+  keys: string[];
+  mapping?: string[];
+}
+
+function getKeyBindings(mode: string, recursive: boolean): Map<string, IKeyRemapping> {
+  return configuration[mappableModes[mode] + (recursive ? '' : 'NonRecursive') + 'Map'];
+}
+
+//
+//  Implements :map, whose mappings are never recursive, like Kakoune's.
+//  https://github.com/mawww/kakoune/blob/master/doc/pages/mapping.asciidoc
+//
+export class MapCommand extends node.CommandBase {
+  protected _arguments: IMapCommandArguments;
+
+  constructor(args: IMapCommandArguments) {
+    super();
+    this._name = 'map';
+    this._arguments = args;
+  }
+
+  get arguments(): IMapCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(): Promise<void> {
+    const { mode, keys, mapping } = this._arguments;
+    const before = keys.join('');
+
+    // A recursive binding from the settings would be tried first
+    getKeyBindings(mode, true).delete(before);
+    getKeyBindings(mode, false).set(before, { before: keys, after: mapping });
+  }
+}
+
+//
+//  Implements :unmap, which also removes the mappings from the settings
+//
+export class UnmapCommand extends node.CommandBase {
+  protected _arguments: IMapCommandArguments;
+
+  constructor(args: IMapCommandArguments) {
+    super();
+    this._name = 'unmap';
+    this._arguments = args;
+  }
+
+  get arguments(): IMapCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(): Promise<void> {
+    const { mode, keys } = this._arguments;
+    const before = keys.join('');
+
+    getKeyBindings(mode, true).delete(before);
+    getKeyBindings(mode, false).delete(before);
+  }
+}
@@ -0,0 +1,51 @@
+import { configuration } from '../../configuration/configuration';
+import { ErrorCode, VimError } from '../../error';
+import * as node from '../node';
+
+export interface ISetOptionCommandArguments extends node.ICommandArgs {
+  name: string;
+  value: string;
+}
+
+//
+//  Implements :set-option, which gives a setting a value of the same type
+//  https://github.com/mawww/kakoune/blob/master/doc/pages/options.asciidoc
+//
+export class SetOptionCommand extends node.CommandBase {
+  protected _arguments: ISetOptionCommandArguments;
+
+  constructor(args: ISetOptionCommandArguments) {
+    super();
+    this._name = 'set-option';
+    this._arguments = args;
+  }
+
+  get arguments(): ISetOptionCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(): Promise<void> {
+    const { name, value } = this._arguments;
+    const current = configuration[name];
+
+    switch (typeof current) {
+      case 'boolean':
+        if (value !== 'true' && value !== 'false') {
+          throw VimError.fromCode(ErrorCode.E474);
+        }
+        configuration[name] = value === 'true';
+        break;
+      case 'number':
+        if (!/^-?\d+$/.test(value)) {
+          throw VimError.fromCode(ErrorCode.E474);
+        }
+        configuration[name] = Number.parseInt(value, 10);
+        break;
+      case 'string':
+        configuration[name] = value;
+        break;
+      default:
+        throw VimError.fromCode(ErrorCode.E518);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import * as vscode from 'vscode';
+
+import { ErrorCode, VimError } from '../../error';
+import { VimState } from '../../state/vimState';
+import { StatusBar } from '../../statusBar';
+import { commandLine } from '../commandLine';
+import * as kakLexer from '../kakLexer';
+import * as node from '../node';
+import untildify = require('untildify');
+
+export interface ISourceCommandArguments extends node.ICommandArgs {
+  file: string;
+}
+
+/**
+ * Relative paths are taken from the workspace folder of the active document,
+ * or else from the folder of the document itself.
+ */
+function resolveSourcePath(file: string): string {
+  file = untildify(file);
+  if (path.isAbsolute(file)) {
+    return file;
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  if (editor === undefined) {
+    return path.resolve(file);
+  }
+
+  const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+  return path.resolve(folder ? folder.uri.fsPath : path.dirname(editor.document.fileName), file);
+}
+
+/**
+ * Whether a command goes on over the next line, because a quoted word or a
+ * `%{...}` block is still open.
+ */
+function isIncomplete(command: string): boolean {
+  try {
+    kakLexer.lex(command);
+    return false;
+  } catch (e) {
+    return e instanceof VimError && e.code === ErrorCode.E114;
+  }
+}
+
+//
+//  Implements :source, which runs every command in a file
+//  https://github.com/mawww/kakoune/blob/master/doc/pages/commands.asciidoc
+//
+export class SourceCommand extends node.CommandBase {
+  protected _arguments: ISourceCommandArguments;
+
+  constructor(args: ISourceCommandArguments) {
+    super();
+    this._name = 'source';
+    this._arguments = args;
+  }
+
+  get arguments(): ISourceCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    let text: string;
+    try {
+      text = await util.promisify(fs.readFile)(resolveSourcePath(this._arguments.file), 'utf8');
+    } catch {
+      throw VimError.fromCode(ErrorCode.E484);
+    }
+
+    const errors: string[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const line = i + 1;
+      let command = lines[i];
+      while (isIncomplete(command) && i + 1 < lines.length) {
+        command += '\n' + lines[++i];
+      }
+
+      await commandLine.Run(command, vimState, { file: this._arguments.file, line, errors });
+    }
+
+    // Every error has been logged, so the status bar only sums them up
+    if (errors.length > 0) {
+      StatusBar.Set(
+        errors.length === 1 ? errors[0] : `${errors[0]} (${errors.length} errors in total)`,
+        vimState.currentMode,
+        vimState.isRecordingMacro,
+        true
+      );
+    }
+  }
+}
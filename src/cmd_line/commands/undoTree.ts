@@ -0,0 +1,112 @@
+import { window, QuickPickItem } from 'vscode';
+
+import * as node from '../node';
+import { Position } from '../../common/motion/position';
+import { Range } from '../../common/motion/range';
+import { IHistoryBranch } from '../../history/historyTracker';
+import { VimState } from '../../state/vimState';
+
+export enum TimeTravelDirection {
+  Earlier,
+  Later,
+}
+
+export interface ITimeTravelCommandArguments extends node.ICommandArgs {
+  direction: TimeTravelDirection;
+  count: number;
+  /**
+   * Whether `count` is a number of seconds rather than of steps.
+   */
+  isTime: boolean;
+}
+
+/**
+ * Puts the cursors where the undo tree left off, and makes sure the changes it
+ * made to the document are not recorded as a new step.
+ */
+function moveCursors(vimState: VimState, positions: Position[] | undefined): void {
+  if (positions !== undefined) {
+    vimState.cursors = positions.map(x => new Range(x, x));
+  }
+
+  vimState.alteredHistory = true;
+}
+
+class UndoBranchQuickPickItem implements QuickPickItem {
+  branch: IHistoryBranch;
+
+  label: string;
+  description: string;
+  detail: string;
+  picked = false;
+  alwaysShow = false;
+
+  constructor(branch: IHistoryBranch) {
+    this.branch = branch;
+    this.label = `${branch.index}`;
+    this.description = `${branch.changes} ${branch.changes === 1 ? 'change' : 'changes'}`;
+    this.detail = branch.timestamp.toLocaleTimeString() + (branch.isCurrent ? ' (current)' : '');
+  }
+}
+
+//
+//  Implements :undolist
+//  http://vimdoc.sourceforge.net/htmldoc/undo.html#:undolist
+//
+export class UndoListCommand extends node.CommandBase {
+  constructor() {
+    super();
+    this._name = 'undolist';
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const quickPickItems = vimState.historyTracker
+      .getHistoryBranches()
+      .reverse()
+      .map(branch => new UndoBranchQuickPickItem(branch));
+
+    if (quickPickItems.length > 0) {
+      const item = await window.showQuickPick(quickPickItems, {
+        canPickMany: false,
+        placeHolder: 'Pick a branch of the undo tree to go to its last change',
+      });
+      if (item) {
+        moveCursors(vimState, await vimState.historyTracker.goToHistoryStep(item.branch.index));
+      }
+    } else {
+      window.showInformationMessage('Nothing to undo');
+    }
+  }
+}
+
+//
+//  Implements :earlier and :later
+//  http://vimdoc.sourceforge.net/htmldoc/undo.html#:earlier
+//
+export class TimeTravelCommand extends node.CommandBase {
+  protected _arguments: ITimeTravelCommandArguments;
+
+  constructor(args: ITimeTravelCommandArguments) {
+    super();
+    this._name = args.direction === TimeTravelDirection.Earlier ? 'earlier' : 'later';
+    this._arguments = args;
+  }
+
+  get arguments(): ITimeTravelCommandArguments {
+    return this._arguments;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const count =
+      this._arguments.direction === TimeTravelDirection.Earlier
+        ? -this._arguments.count
+        : this._arguments.count;
+
+    moveCursors(
+      vimState,
+      this._arguments.isTime
+        ? await vimState.historyTracker.goToTimeOffset(count)
+        : await vimState.historyTracker.goChronologically(count)
+    );
+  }
+}
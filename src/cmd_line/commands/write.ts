@@ -6,6 +6,8 @@ import { promisify } from 'util';
 import { Logger } from '../../util/logger';
 import { StatusBar } from '../../statusBar';
 import { VimState } from '../../state/vimState';
+import { hooks } from '../../hooks/hooks';
+import { taskQueue } from '../../taskQueue';
 
 export interface IWriteCommandArguments extends node.ICommandArgs {
   opt?: string;
@@ -51,9 +53,15 @@ export class WriteCommand extends node.CommandBase {
       return;
     }
 
+    await hooks.run('BufWritePre', vimState.editor.document.fileName, vimState);
+
     // defer saving the file to vscode if file is new (to present file explorer) or if file is a remote file
     if (vimState.editor.document.isUntitled || vimState.editor.document.uri.scheme !== 'file') {
-      await this.background(vscode.commands.executeCommand('workbench.action.files.save'));
+      await this.background(
+        vscode.commands
+          .executeCommand('workbench.action.files.save')
+          .then(() => this.runWritePostHooks(vimState, !vimState.editor.document.isDirty))
+      );
       return;
     }
 
@@ -77,7 +85,7 @@ export class WriteCommand extends node.CommandBase {
   private async save(vimState: VimState): Promise<void> {
     await this.background(
       vimState.editor.document.save().then(
-        () => {
+        saved => {
           let text =
             '"' +
             path.basename(vimState.editor.document.fileName) +
@@ -87,12 +95,32 @@ export class WriteCommand extends node.CommandBase {
             vimState.editor.document.getText().length +
             'C written';
           StatusBar.Set(text, vimState.currentMode, vimState.isRecordingMacro, true);
+          return this.runWritePostHooks(vimState, saved);
         },
         e => StatusBar.Set(e, vimState.currentMode, vimState.isRecordingMacro, true)
       )
     );
   }
 
+  /**
+   * A write in the background ends after the command has returned, so its hooks
+   * wait their turn behind the keys being handled.
+   */
+  private async runWritePostHooks(vimState: VimState, saved: boolean): Promise<void> {
+    if (!saved) {
+      return;
+    }
+
+    const fileName = vimState.editor.document.fileName;
+    if (this._arguments.bgWrite) {
+      taskQueue.enqueueTask(async () => {
+        await hooks.run('BufWritePost', fileName, vimState);
+      });
+    } else {
+      await hooks.run('BufWritePost', fileName, vimState);
+    }
+  }
+
   private async background(fn: Thenable<void>): Promise<void> {
     if (!this._arguments.bgWrite) {
       await fn;
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+
+import { Position } from '../common/motion/position';
+import { Range } from '../common/motion/range';
+import { configuration } from '../configuration/configuration';
+import { ErrorCode, VimError } from '../error';
+import { Register } from '../register/register';
+import { RecordedState } from '../state/recordedState';
+import { VimState } from '../state/vimState';
+import { TextEditor } from '../textEditor';
+import { executeShellFilter } from '../util/util';
+import { IKakExpansion, IKakWord } from './kakLexer';
+
+function describeSelection(cursor: Range): string {
+  const describe = (pos: Position) => `${pos.line + 1}.${pos.character + 1}`;
+  return `${describe(cursor.anchor)},${describe(cursor.cursor)}`;
+}
+
+/**
+ * The `%val{...}` values of a selection that shell commands get as `kak_*`
+ * environment variables.
+ */
+export function getShellEnvironment(
+  vimState: VimState,
+  cursor: Range,
+  count: number,
+  registerName: string
+): { [name: string]: string } {
+  const document = vimState.editor.document;
+
+  return {
+    kak_buffile: document.fileName,
+    kak_bufname: vscode.workspace.asRelativePath(document.fileName),
+    kak_timestamp: String(document.version),
+    kak_selection: TextEditor.getText(cursor.getSelectedRange()),
+    kak_selection_desc: describeSelection(cursor),
+    kak_cursor_line: String(cursor.cursor.line + 1),
+    kak_cursor_column: String(cursor.cursor.character + 1),
+    kak_count: String(count),
+    kak_register: registerName,
+  };
+}
+
+function getCommandLineEnvironment(vimState: VimState): { [name: string]: string } {
+  return getShellEnvironment(vimState, vimState.mainSelection, 0, '"');
+}
+
+async function expandValue(name: string, vimState: VimState): Promise<string[]> {
+  switch (name) {
+    case 'selections':
+      return vimState.cursors.map(cursor => TextEditor.getText(cursor.getSelectedRange()));
+    case 'selections_desc':
+      return vimState.cursors.map(describeSelection);
+    default:
+      const value = getCommandLineEnvironment(vimState)[`kak_${name}`];
+      if (value === undefined) {
+        throw VimError.fromCode(ErrorCode.E474);
+      }
+      return [value];
+  }
+}
+
+async function expandRegister(name: string): Promise<string[]> {
+  if (!Register.isValidRegister(name)) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  const { text } = await Register.getByKey(name);
+  if (text instanceof RecordedState) {
+    return [text.commandString];
+  }
+
+  return typeof text === 'string' ? [text] : text;
+}
+
+async function expandOption(name: string): Promise<string[]> {
+  const value = configuration[name];
+  if (value === undefined || value === null || typeof value === 'object') {
+    throw VimError.fromCode(ErrorCode.E518);
+  }
+
+  return [String(value)];
+}
+
+async function expandShell(script: string, vimState: VimState): Promise<string[]> {
+  const { stdout } = await executeShellFilter(script, '', getCommandLineEnvironment(vimState));
+  return [stdout.replace(/\n+$/, '')];
+}
+
+/**
+ * `%arg{n}` is the nth argument of the user command being run, or nothing past
+ * the last one, while `%arg{@}` is all of them.
+ */
+async function expandArgument(name: string, args: string[]): Promise<string[]> {
+  if (name === '@') {
+    return args;
+  }
+
+  if (!/^[1-9]\d*$/.test(name)) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return [args[Number.parseInt(name, 10) - 1] || ''];
+}
+
+/**
+ * Evaluates an expansion against the current state. Some expansions, such as
+ * `%val{selections}`, give a list of values.
+ */
+function expand(expansion: IKakExpansion, vimState: VimState, args: string[]): Promise<string[]> {
+  switch (expansion.type) {
+    case 'val':
+      return expandValue(expansion.content, vimState);
+    case 'reg':
+      return expandRegister(expansion.content);
+    case 'opt':
+      return expandOption(expansion.content);
+    case 'sh':
+      return expandShell(expansion.content, vimState);
+    case 'arg':
+      return expandArgument(expansion.content, args);
+  }
+}
+
+/**
+ * Expands the words of a Kakoune command, run with the arguments `args` of a
+ * user command. A word which is only an expansion becomes one word for every
+ * value of the expansion, while other words join the values with spaces.
+ */
+export async function expandWords(
+  words: IKakWord[],
+  vimState: VimState,
+  args: string[] = []
+): Promise<string[]> {
+  const expanded: string[] = [];
+
+  for (const { parts, quoted } of words) {
+    if (!quoted && parts.length === 1 && typeof parts[0] !== 'string') {
+      expanded.push(...(await expand(parts[0] as IKakExpansion, vimState, args)));
+      continue;
+    }
+
+    let text = '';
+    for (const part of parts) {
+      text += typeof part === 'string' ? part : (await expand(part, vimState, args)).join(' ');
+    }
+    expanded.push(text);
+  }
+
+  return expanded;
+}
@@ -0,0 +1,237 @@
+import { ErrorCode, VimError } from '../error';
+import { Scanner } from './scanner';
+
+/**
+ * The kinds of `%name{...}` expansions. `%{...}` has no name and is a raw
+ * string, which is never expanded.
+ */
+export type KakExpansionType = 'val' | 'reg' | 'opt' | 'sh' | 'arg';
+
+const expansionTypes: KakExpansionType[] = ['val', 'reg', 'opt', 'sh', 'arg'];
+
+function isExpansionType(type: string): type is KakExpansionType {
+  return expansionTypes.includes(type as KakExpansionType);
+}
+
+export interface IKakExpansion {
+  type: KakExpansionType;
+  content: string;
+}
+
+/**
+ * A word of a Kakoune command, made of literal text and expansions.
+ */
+export interface IKakWord {
+  parts: Array<string | IKakExpansion>;
+
+  /**
+   * Set for quoted words, which are never split into several words by the
+   * expansion of a list.
+   */
+  quoted: boolean;
+}
+
+export type KakCommand = IKakWord[];
+
+const closingDelimiters: { [opening: string]: string } = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  '<': '>',
+};
+
+/**
+ * Splits a Kakoune command line into commands, separated by `;` or newlines,
+ * and their words. Expansions are kept for when the command runs.
+ */
+export function lex(input: string): KakCommand[] {
+  const scanner = new Scanner(input);
+  const commands: KakCommand[] = [];
+  let command: KakCommand = [];
+
+  while (!scanner.isAtEof) {
+    const c = scanner.next();
+    switch (c) {
+      case ' ':
+      case '\t':
+      case '\r':
+        break;
+      case ';':
+      case '\n':
+        if (command.length > 0) {
+          commands.push(command);
+        }
+        command = [];
+        break;
+      case '#':
+        // Comments run until the end of the line
+        while (!scanner.isAtEof) {
+          if (scanner.next() === '\n') {
+            scanner.backup();
+            break;
+          }
+        }
+        break;
+      case "'":
+        command.push({ parts: [lexDelimited(scanner, "'", "'")], quoted: true });
+        break;
+      case '"':
+        command.push(lexDoubleQuoted(scanner));
+        break;
+      case '%':
+        command.push(lexPercentString(scanner));
+        break;
+      default:
+        scanner.backup();
+        command.push({ parts: [lexUnquoted(scanner)], quoted: false });
+        break;
+    }
+    scanner.ignore();
+  }
+
+  if (command.length > 0) {
+    commands.push(command);
+  }
+
+  return commands;
+}
+
+/**
+ * Reads up to the unescaped `closing` delimiter, which is consumed but not
+ * returned. Paired delimiters nest, and `\` escapes the closing one otherwise.
+ */
+function lexDelimited(scanner: Scanner, opening: string, closing: string): string {
+  let content = '';
+  let depth = 0;
+
+  while (!scanner.isAtEof) {
+    const c = scanner.next();
+    if (opening !== closing && c === opening) {
+      depth++;
+    } else if (c === closing && depth > 0) {
+      depth--;
+    } else if (c === closing) {
+      return content;
+    } else if (opening === closing && c === '\\' && !scanner.isAtEof) {
+      const escaped = scanner.next();
+      if (escaped !== closing) {
+        content += c;
+      }
+      content += escaped;
+      continue;
+    }
+
+    content += c;
+  }
+
+  throw VimError.fromCode(ErrorCode.E114);
+}
+
+/**
+ * Reads an unquoted word, in which only `\;` is an escape.
+ */
+function lexUnquoted(scanner: Scanner): string {
+  let word = '';
+
+  while (!scanner.isAtEof) {
+    const c = scanner.next();
+    if (c === ' ' || c === '\t' || c === '\r' || c === ';' || c === '\n') {
+      scanner.backup();
+      break;
+    }
+
+    if (c === '\\' && !scanner.isAtEof) {
+      const escaped = scanner.next();
+      word += escaped === ';' ? escaped : c + escaped;
+      continue;
+    }
+
+    word += c;
+  }
+
+  return word;
+}
+
+/**
+ * Reads an expansion after a `%`, if there is one whose type is accepted by
+ * `isType`. Otherwise leaves the scanner where it was.
+ */
+function lexExpansion(
+  scanner: Scanner,
+  isType: (type: string) => boolean
+): { type: string; content: string } | undefined {
+  const start = scanner.pos;
+
+  let type = '';
+  while (!scanner.isAtEof) {
+    const c = scanner.next();
+    if (c >= 'a' && c <= 'z') {
+      type += c;
+    } else if (/[\s;]/.test(c) || !isType(type)) {
+      break;
+    } else {
+      return { type, content: lexDelimited(scanner, c, closingDelimiters[c] || c) };
+    }
+  }
+
+  scanner.pos = start;
+  return undefined;
+}
+
+/**
+ * Reads a `%{...}` raw string or a `%name{...}` expansion. A `%` which starts
+ * neither is part of an unquoted word.
+ */
+function lexPercentString(scanner: Scanner): IKakWord {
+  const expansion = lexExpansion(scanner, () => true);
+  if (expansion === undefined) {
+    scanner.backup();
+    return { parts: [lexUnquoted(scanner)], quoted: false };
+  }
+
+  if (expansion.type === '') {
+    return { parts: [expansion.content], quoted: true };
+  }
+
+  if (!isExpansionType(expansion.type)) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return { parts: [{ type: expansion.type, content: expansion.content }], quoted: false };
+}
+
+/**
+ * Reads a double quoted word, in which `\"` is an escape and expansions are
+ * expanded.
+ */
+function lexDoubleQuoted(scanner: Scanner): IKakWord {
+  const parts: Array<string | IKakExpansion> = [];
+  let text = '';
+
+  while (!scanner.isAtEof) {
+    const c = scanner.next();
+    if (c === '"') {
+      return { parts: text.length > 0 ? parts.concat(text) : parts, quoted: true };
+    }
+
+    if (c === '\\' && !scanner.isAtEof) {
+      const escaped = scanner.next();
+      text += escaped === '"' ? escaped : c + escaped;
+      continue;
+    }
+
+    const expansion = c === '%' ? lexExpansion(scanner, isExpansionType) : undefined;
+    if (expansion !== undefined) {
+      if (text.length > 0) {
+        parts.push(text);
+        text = '';
+      }
+      parts.push({ type: expansion.type as KakExpansionType, content: expansion.content });
+      continue;
+    }
+
+    text += c;
+  }
+
+  throw VimError.fromCode(ErrorCode.E114);
+}
@@ -1,8 +1,11 @@
+import * as kakLexer from './kakLexer';
 import * as lexer from './lexer';
 import * as node from './node';
 import * as token from './token';
 import { Logger } from '../util/logger';
 import { VimError, ErrorCode } from '../error';
+import { VimState } from '../state/vimState';
+import { expandWords } from './kakExpansions';
 import { commandParsers, CommandParserMapping, getParser } from './subparser';
 
 interface IParseFunction {
@@ -19,6 +22,59 @@ export function parse(input: string): node.CommandLine {
   return cmd;
 }
 
+/**
+ * Whether `input` starts with an Ex line range, like `%`, `10`, `.,$` or
+ * `'<,'>`. A `%` starting an expansion or a raw string is Kakoune's instead.
+ */
+export function startsWithLineRange(input: string): boolean {
+  return /^\s*([\d.$+\-,\/?\\]|'[a-z<>]|%(?!(val|reg|opt|sh|arg)?[^\w\s;]))/.test(input);
+}
+
+/**
+ * Commands in Kakoune's command language. Their expansions are evaluated right
+ * before each command runs, so they see what the previous commands did.
+ */
+export class KakCommandLine {
+  commands: kakLexer.KakCommand[];
+
+  constructor(commands: kakLexer.KakCommand[]) {
+    this.commands = commands;
+  }
+
+  /**
+   * Runs the commands, with `args` as the arguments of the user command they
+   * are the body of.
+   */
+  async execute(vimState: VimState, args: string[] = []): Promise<void> {
+    for (const words of this.commands) {
+      const expanded = await expandWords(words, vimState, args);
+      await parseKakCommand(expanded).execute(vimState);
+    }
+  }
+}
+
+export function parseKakoune(input: string): KakCommandLine {
+  return new KakCommandLine(kakLexer.lex(input));
+}
+
+/**
+ * Finds the command named by the first of the expanded words, giving it the
+ * others as its arguments. As with Ex commands, anything following the word
+ * characters and dashes of the name, like a `!`, is where its arguments start.
+ * The joined arguments lose their quoting, so parsers of words which may hold
+ * whitespace, like file names, read them from the words instead.
+ */
+function parseKakCommand(words: string[]): node.CommandBase {
+  const [, name, suffix] = /^([\w-]*)(.*)$/.exec(words[0])!;
+  const commandParser = getParser(name);
+  if (!commandParser) {
+    throw VimError.fromCode(ErrorCode.E492);
+  }
+
+  const args = words.slice(1);
+  return commandParser(suffix + args.map(word => ` ${word}`).join(''), args);
+}
+
 function parseLineRange(state: ParserState, commandLine: node.CommandLine): IParseFunction | null {
   const logger = Logger.get('Parser');
 
@@ -20,14 +20,25 @@ import { parseMarksCommandArgs } from './subparsers/marks';
 import { parseSmileCommandArgs } from './subparsers/smile';
 import { CommandBase } from './node';
 import { parseHistoryCommandArgs } from './subparsers/history';
+import * as undoTreeCmd from './subparsers/undoTree';
+import { parseSourceCommandArgs } from './subparsers/source';
+import { parseMapCommandArgs, parseUnmapCommandArgs } from './subparsers/map';
+import { parseSetOptionCommandArgs } from './subparsers/setOption';
+import { parseDefineCommandArgs } from './subparsers/defineCommand';
+import { UserCommand } from './commands/defineCommand';
+import { parseHookCommandArgs, parseRemoveHooksCommandArgs } from './subparsers/hook';
+import * as bufferCmd from './subparsers/buffer';
 
 // Associates a name and an abbreviation with a command parser
 export type CommandParserMapping = {
   /** The shortest abbreviation that will work, such as `:q` */
   abbrev?: string;
 
-  /** The parser for this command */
-  parser: (args: string) => CommandBase;
+  /**
+   * The parser for this command. Commands from Kakoune's command language also
+   * get their arguments as separate, already expanded words.
+   */
+  parser: (args: string, words?: string[]) => CommandBase;
 };
 
 export const commandParsers = {
@@ -224,17 +235,133 @@ export const commandParsers = {
     abbrev: 'his',
     parser: parseHistoryCommandArgs,
   },
+
+  undolist: {
+    abbrev: 'undol',
+    parser: undoTreeCmd.parseUndoListCommandArgs,
+  },
+
+  earlier: {
+    abbrev: 'ea',
+    parser: undoTreeCmd.parseEarlierCommandArgs,
+  },
+
+  later: {
+    abbrev: 'lat',
+    parser: undoTreeCmd.parseLaterCommandArgs,
+  },
+
+  source: {
+    abbrev: 'so',
+    parser: parseSourceCommandArgs,
+  },
+
+  map: {
+    parser: parseMapCommandArgs,
+  },
+
+  unmap: {
+    parser: parseUnmapCommandArgs,
+  },
+
+  'set-option': {
+    parser: parseSetOptionCommandArgs,
+  },
+
+  'define-command': {
+    abbrev: 'def',
+    parser: parseDefineCommandArgs,
+  },
+
+  hook: {
+    parser: parseHookCommandArgs,
+  },
+
+  'remove-hooks': {
+    parser: parseRemoveHooksCommandArgs,
+  },
+
+  buffer: {
+    abbrev: 'b',
+    parser: bufferCmd.parseBufferCommandArgs,
+  },
+
+  'buffer-next': {
+    parser: bufferCmd.parseBufferNextCommandArgs,
+  },
+
+  bn: {
+    parser: bufferCmd.parseBufferNextCommandArgs,
+  },
+
+  'buffer-previous': {
+    parser: bufferCmd.parseBufferPreviousCommandArgs,
+  },
+
+  bp: {
+    parser: bufferCmd.parseBufferPreviousCommandArgs,
+  },
+
+  'delete-buffer': {
+    parser: bufferCmd.parseDeleteBufferCommandArgs,
+  },
+
+  db: {
+    parser: bufferCmd.parseDeleteBufferCommandArgs,
+  },
+
+  'rename-buffer': {
+    parser: bufferCmd.parseRenameBufferCommandArgs,
+  },
 };
 
+/**
+ * Where the arguments of a user command are completed from: file paths, the
+ * names of the open documents, or a fixed list of words.
+ */
+export type UserCommandCompletion = 'file' | 'buffer' | string[];
+
+/**
+ * A command defined with `:define-command`, which runs Kakoune commands.
+ */
+export interface IUserCommand {
+  name: string;
+
+  /** The Kakoune commands to run, with `%arg{n}` for the arguments */
+  commands: string;
+
+  minParams: number;
+  maxParams: number;
+  docstring: string;
+  completion?: UserCommandCompletion;
+}
+
+/**
+ * The user commands by name. They take precedence over the commands above, but
+ * are never abbreviated.
+ */
+export const userCommands = new Map<string, IUserCommand>();
+
 /**
  * Returns a command parser for the given `input`, if one exists.
  * Resolves `q`, `qu`, `qui`, and `quit` the same.
  */
-export function getParser(input: string): ((args?: string) => CommandBase) | undefined {
+export function getParser(
+  input: string
+): ((args?: string, words?: string[]) => CommandBase) | undefined {
   if (input === '') {
     return undefined;
   }
 
+  const userCommand = userCommands.get(input);
+  if (userCommand !== undefined) {
+    return (args?: string, words?: string[]) =>
+      new UserCommand({
+        command: userCommand,
+        params: words || (args || '').split(/\s+/).filter(word => word),
+      });
+  }
+
   for (const fullName of Object.keys(commandParsers)) {
     const parserMapping: CommandParserMapping = commandParsers[fullName];
 
@@ -0,0 +1,82 @@
+import { Buffer, BufferCommand } from '../commands/buffer';
+import { ErrorCode, VimError } from '../../error';
+
+/**
+ * Reads a `!` right after the command name, and the words that follow.
+ */
+function parseBangAndWords(
+  args: string | undefined,
+  words: string[] | undefined
+): { bang: boolean; names: string[] } {
+  const bang = (args || '').startsWith('!');
+  return {
+    bang,
+    names:
+      words ||
+      (args || '')
+        .slice(bang ? 1 : 0)
+        .split(/\s+/)
+        .filter(word => word),
+  };
+}
+
+/**
+ * :b[uffer] {name}  Switch to the buffer {name}, or the only one it is a fuzzy
+ * match of.
+ */
+export function parseBufferCommandArgs(args: string, words?: string[]): BufferCommand {
+  const { bang, names } = parseBangAndWords(args, words);
+  if (bang || names.length !== 1) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new BufferCommand({ buffer: Buffer.Switch, name: names[0] });
+}
+
+function parseCycleArgs(buffer: Buffer, args: string, words?: string[]): BufferCommand {
+  const { bang, names } = parseBangAndWords(args, words);
+  if (bang || names.length > 0) {
+    throw VimError.fromCode(ErrorCode.E488);
+  }
+
+  return new BufferCommand({ buffer });
+}
+
+/**
+ * :bn, :buffer-next  Switch to the next buffer.
+ */
+export function parseBufferNextCommandArgs(args: string, words?: string[]): BufferCommand {
+  return parseCycleArgs(Buffer.Next, args, words);
+}
+
+/**
+ * :bp, :buffer-previous  Switch to the previous buffer.
+ */
+export function parseBufferPreviousCommandArgs(args: string, words?: string[]): BufferCommand {
+  return parseCycleArgs(Buffer.Previous, args, words);
+}
+
+/**
+ * :db[!] [{name}], :delete-buffer[!] [{name}]  Close the buffer {name}, or the
+ * current one. Unless ! is given, buffers with unsaved changes are kept.
+ */
+export function parseDeleteBufferCommandArgs(args: string, words?: string[]): BufferCommand {
+  const { bang, names } = parseBangAndWords(args, words);
+  if (names.length > 1) {
+    throw VimError.fromCode(ErrorCode.E488);
+  }
+
+  return new BufferCommand({ buffer: Buffer.Delete, name: names[0], bang });
+}
+
+/**
+ * :rename-buffer {name}  Rename the current buffer, and so its file, to {name}.
+ */
+export function parseRenameBufferCommandArgs(args: string, words?: string[]): BufferCommand {
+  const { bang, names } = parseBangAndWords(args, words);
+  if (bang || names.length !== 1) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new BufferCommand({ buffer: Buffer.Rename, name: names[0] });
+}
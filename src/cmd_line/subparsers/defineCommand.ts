@@ -0,0 +1,89 @@
+import { DefineCommand } from '../commands/defineCommand';
+import { IUserCommand } from '../subparser';
+import { ErrorCode, VimError } from '../../error';
+
+/**
+ * Reads the `-params` switch, which is a number, or a range like `1..`, `..2`
+ * or `0..2`.
+ */
+function parseParamsRange(range: string): { minParams: number; maxParams: number } {
+  const exact = /^\d+$/.exec(range);
+  if (exact) {
+    const count = Number.parseInt(range, 10);
+    return { minParams: count, maxParams: count };
+  }
+
+  const match = /^(\d*)\.\.(\d*)$/.exec(range);
+  if (!match) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  const [, min, max] = match;
+  return {
+    minParams: min ? Number.parseInt(min, 10) : 0,
+    maxParams: max ? Number.parseInt(max, 10) : Infinity,
+  };
+}
+
+/**
+ * :def[ine-command] [<switches>] {name} {commands}  Define the command {name},
+ * which runs {commands}. The switches are:
+ *   -params {range}  the number of parameters, which is 0 by default
+ *   -docstring {text}  what the command does
+ *   -override  accepted for Kakoune scripts, as commands are always replaced
+ *   -file-completion  complete the parameters with file paths
+ *   -buffer-completion  complete the parameters with the open documents
+ *   -static-completion {words}  complete the parameters with {words}
+ */
+export function parseDefineCommandArgs(args: string, words?: string[]): DefineCommand {
+  const argWords = words || (args || '').split(/\s+/).filter(word => word);
+
+  const command: IUserCommand = {
+    name: '',
+    commands: '',
+    minParams: 0,
+    maxParams: 0,
+    docstring: '',
+  };
+
+  let i = 0;
+  const nextValue = () => {
+    if (++i >= argWords.length) {
+      throw VimError.fromCode(ErrorCode.E474);
+    }
+    return argWords[i];
+  };
+
+  for (; i < argWords.length && argWords[i].startsWith('-'); i++) {
+    switch (argWords[i]) {
+      case '-params':
+        Object.assign(command, parseParamsRange(nextValue()));
+        break;
+      case '-docstring':
+        command.docstring = nextValue();
+        break;
+      case '-override':
+        break;
+      case '-file-completion':
+        command.completion = 'file';
+        break;
+      case '-buffer-completion':
+        command.completion = 'buffer';
+        break;
+      case '-static-completion':
+        command.completion = nextValue()
+          .split(/\s+/)
+          .filter(word => word);
+        break;
+      default:
+        throw VimError.fromCode(ErrorCode.E474);
+    }
+  }
+
+  const [name, commands, ...rest] = argWords.slice(i);
+  if (!name || !/^[\w-]+$/.test(name) || commands === undefined || rest.length > 0) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new DefineCommand({ command: { ...command, name, commands } });
+}
@@ -1,7 +1,19 @@
 import * as node from '../commands/file';
 import { Scanner } from '../scanner';
 
-export function parseEditFileCommandArgs(args: string): node.FileCommand {
+/**
+ * Kakoune's command language gives the file name as a word of its own, which
+ * may hold whitespace.
+ */
+export function parseEditFileCommandArgs(args: string, words?: string[]): node.FileCommand {
+  if (words !== undefined && words.length > 0) {
+    return new node.FileCommand({
+      name: words[0],
+      bang: args.startsWith('!'),
+      createFileIfNotExists: true,
+    });
+  }
+
   if (!args) {
     return new node.FileCommand({ name: '', createFileIfNotExists: true });
   }
@@ -27,10 +39,15 @@ export function parseEditNewFileCommandArgs(): node.FileCommand {
   });
 }
 
-export function parseEditFileInNewVerticalWindowCommandArgs(args: string): node.FileCommand {
+export function parseEditFileInNewVerticalWindowCommandArgs(
+  args: string,
+  words?: string[]
+): node.FileCommand {
   let name = '';
 
-  if (args) {
+  if (words !== undefined && words.length > 0) {
+    name = words[0];
+  } else if (args) {
     let scanner = new Scanner(args);
     name = scanner.nextWord();
   }
@@ -41,10 +58,15 @@ export function parseEditFileInNewVerticalWindowCommandArgs(args: string): node.
   });
 }
 
-export function parseEditFileInNewHorizontalWindowCommandArgs(args: string): node.FileCommand {
+export function parseEditFileInNewHorizontalWindowCommandArgs(
+  args: string,
+  words?: string[]
+): node.FileCommand {
   let name = '';
 
-  if (args) {
+  if (words !== undefined && words.length > 0) {
+    name = words[0];
+  } else if (args) {
     let scanner = new Scanner(args);
     name = scanner.nextWord();
   }
@@ -0,0 +1,61 @@
+import { HookCommand, RemoveHooksCommand } from '../commands/hook';
+import { HookEvent, hookEvents } from '../../hooks/hooks';
+import { ErrorCode, VimError } from '../../error';
+
+/**
+ * :hook [-group {group}] [-once] [global] {event} {filter} {commands}  Run
+ * {commands} whenever the parameter of {event} matches the regex {filter}.
+ * Every hook is global, so that is the only scope there is.
+ */
+export function parseHookCommandArgs(args: string, words?: string[]): HookCommand {
+  const argWords = words || (args || '').split(/\s+/).filter(word => word);
+
+  let group: string | undefined;
+  let once = false;
+  let i = 0;
+  for (; i < argWords.length && argWords[i].startsWith('-'); i++) {
+    if (argWords[i] === '-group' && i + 1 < argWords.length) {
+      group = argWords[++i];
+    } else if (argWords[i] === '-once') {
+      once = true;
+    } else {
+      throw VimError.fromCode(ErrorCode.E474);
+    }
+  }
+
+  if (argWords[i] === 'global') {
+    i++;
+  }
+
+  const [event, filter, commands, ...rest] = argWords.slice(i);
+  if (!hookEvents.includes(event as HookEvent) || commands === undefined || rest.length > 0) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(`^(?:${filter})$`);
+  } catch {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new HookCommand({
+    hook: { event: event as HookEvent, filter: regex, commands, group, once },
+  });
+}
+
+/**
+ * :remove-hooks [global] {group}  Remove the hooks of {group}.
+ */
+export function parseRemoveHooksCommandArgs(args: string, words?: string[]): RemoveHooksCommand {
+  let argWords = words || (args || '').split(/\s+/).filter(word => word);
+  if (argWords[0] === 'global') {
+    argWords = argWords.slice(1);
+  }
+
+  if (argWords.length !== 1) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new RemoveHooksCommand({ group: argWords[0] });
+}
@@ -0,0 +1,45 @@
+import { MapCommand, UnmapCommand, IMapCommandArguments, mappableModes } from '../commands/map';
+import { configuration } from '../../configuration/configuration';
+import { Notation } from '../../configuration/notation';
+import { ErrorCode, VimError } from '../../error';
+
+/**
+ * Reads `[global] <mode> <key>` and any further words. Every mapping is global,
+ * so that is the only scope there is.
+ */
+function parseMapArgs(
+  args: string | undefined,
+  words: string[] | undefined,
+  count: number
+): IMapCommandArguments {
+  words = words || (args || '').split(/\s+/).filter(word => word);
+  if (words[0] === 'global') {
+    words = words.slice(1);
+  }
+
+  const [mode, keys, mapping] = words;
+  if (words.length !== count || !mappableModes.hasOwnProperty(mode) || !keys) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return {
+    mode,
+    keys: Notation.ParseKeySequence(keys, configuration.leader),
+    mapping:
+      mapping === undefined ? undefined : Notation.ParseKeySequence(mapping, configuration.leader),
+  };
+}
+
+/**
+ * :map [global] {mode} {key} {keys}  Make {key} type {keys} in {mode}.
+ */
+export function parseMapCommandArgs(args: string, words?: string[]): MapCommand {
+  return new MapCommand(parseMapArgs(args, words, 3));
+}
+
+/**
+ * :unmap [global] {mode} {key}  Remove the mapping of {key} in {mode}.
+ */
+export function parseUnmapCommandArgs(args: string, words?: string[]): UnmapCommand {
+  return new UnmapCommand(parseMapArgs(args, words, 2));
+}
@@ -0,0 +1,20 @@
+import { SetOptionCommand } from '../commands/setOption';
+import { ErrorCode, VimError } from '../../error';
+
+/**
+ * :set-option [global] {name} {value}  Set the option {name} to {value}. Every
+ * option is global, so that is the only scope there is.
+ */
+export function parseSetOptionCommandArgs(args: string, words?: string[]): SetOptionCommand {
+  words = words || (args || '').split(/\s+/).filter(word => word);
+  if (words[0] === 'global') {
+    words = words.slice(1);
+  }
+
+  const [name, ...values] = words;
+  if (!name || values.length === 0) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new SetOptionCommand({ name, value: values.join(' ') });
+}
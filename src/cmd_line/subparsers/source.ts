@@ -0,0 +1,14 @@
+import { SourceCommand } from '../commands/source';
+import { ErrorCode, VimError } from '../../error';
+
+/**
+ * :so[urce] {file}  Run the commands in {file}.
+ */
+export function parseSourceCommandArgs(args: string, words?: string[]): SourceCommand {
+  const [file, ...rest] = words || [(args || '').trim()];
+  if (!file || rest.length > 0) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new SourceCommand({ file });
+}
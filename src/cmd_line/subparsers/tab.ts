@@ -118,10 +118,12 @@ export function parseTabLastCommandArgs(args: string): node.TabCommand {
  * :tabe[dit]
  * :tabnew Open a new tab page with an empty window, after the current tab page.
  */
-export function parseTabNewCommandArgs(args: string): node.TabCommand {
+export function parseTabNewCommandArgs(args: string, words?: string[]): node.TabCommand {
   let name = '';
 
-  if (args) {
+  if (words !== undefined && words.length > 0) {
+    name = words[0];
+  } else if (args) {
     let scanner = new Scanner(args);
     name = scanner.nextWord();
   }
@@ -0,0 +1,71 @@
+import * as node from '../commands/undoTree';
+import { Scanner } from '../scanner';
+import { ErrorCode, VimError } from '../../error';
+
+const isDigit = (c: string) => '0' <= c && c <= '9';
+
+const secondsPerUnit: { [unit: string]: number } = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+function parseTimeTravelArgs(
+  direction: node.TimeTravelDirection,
+  args: string
+): node.TimeTravelCommand {
+  const scanner = new Scanner(args || '');
+  scanner.skipWhiteSpace();
+
+  if (scanner.isAtEof) {
+    return new node.TimeTravelCommand({ direction, count: 1, isTime: false });
+  }
+
+  const count = Number.parseInt(scanner.nextWhile(isDigit), 10);
+  const unit = scanner.nextWhile(c => c in secondsPerUnit);
+  scanner.skipWhiteSpace();
+
+  if (!Number.isInteger(count) || unit.length > 1 || !scanner.isAtEof) {
+    throw VimError.fromCode(ErrorCode.E474);
+  }
+
+  return new node.TimeTravelCommand({
+    direction,
+    count: unit ? count * secondsPerUnit[unit] : count,
+    isTime: unit !== '',
+  });
+}
+
+/**
+ * :undol[ist]  List the leafs in the tree of changes.
+ */
+export function parseUndoListCommandArgs(args: string): node.UndoListCommand {
+  if (args && args.trim()) {
+    throw VimError.fromCode(ErrorCode.E488);
+  }
+
+  return new node.UndoListCommand();
+}
+
+/**
+ * :ea[rlier] {count}  Go to older text state {count} times.
+ * :ea[rlier] {N}s  Go to older text state about {N} seconds before.
+ * :ea[rlier] {N}m  Go to older text state about {N} minutes before.
+ * :ea[rlier] {N}h  Go to older text state about {N} hours before.
+ * :ea[rlier] {N}d  Go to older text state about {N} days before.
+ */
+export function parseEarlierCommandArgs(args: string): node.TimeTravelCommand {
+  return parseTimeTravelArgs(node.TimeTravelDirection.Earlier, args);
+}
+
+/**
+ * :lat[er] {count}  Go to newer text state {count} times.
+ * :lat[er] {N}s  Go to newer text state about {N} seconds later.
+ * :lat[er] {N}m  Go to newer text state about {N} minutes later.
+ * :lat[er] {N}h  Go to newer text state about {N} hours later.
+ * :lat[er] {N}d  Go to newer text state about {N} days later.
+ */
+export function parseLaterCommandArgs(args: string): node.TimeTravelCommand {
+  return parseTimeTravelArgs(node.TimeTravelDirection.Later, args);
+}
@@ -15,6 +15,25 @@ export class Range {
     return this._stop;
   }
 
+  /**
+   * In KakNormal a range is a directed selection: `start` is its anchor, the
+   * end that stays put when the selection is extended, and `stop` is its cursor.
+   */
+  public get anchor(): Position {
+    return this._start;
+  }
+
+  public get cursor(): Position {
+    return this._stop;
+  }
+
+  /**
+   * Whether the cursor is at or after the anchor.
+   */
+  public get isForward(): boolean {
+    return this._start.isBeforeOrEqual(this._stop);
+  }
+
   constructor(start: Position, stop: Position) {
     this._start = start;
     this._stop = stop;
@@ -53,6 +72,64 @@ export class Range {
     return new Range(i.start, i.stop);
   }
 
+  /**
+   * Create a forward range that selects the text of a (non-empty) VSCode range.
+   * This is the inverse of getSelectedRange().
+   */
+  public static FromSelectedRange(range: vscode.Range): Range {
+    return new Range(
+      Position.FromVSCodePosition(range.start),
+      Position.FromVSCodePosition(range.end).getLeftThroughLineBreaks()
+    );
+  }
+
+  /**
+   * The text this range selects in KakNormal, where the stop is drawn as a block
+   * cursor: both ends are included, whichever way the range faces.
+   */
+  public getSelectedRange(): vscode.Range {
+    const first = Position.EarlierOf(this._start, this._stop);
+    const last = Position.LaterOf(this._start, this._stop);
+
+    return new vscode.Range(first, last.getRightThroughLineBreaks(true));
+  }
+
+  /**
+   * Create a directed range from a VSCode selection drawn by toInclusiveSelection().
+   */
+  public static FromInclusiveSelection(selection: vscode.Selection): Range {
+    const anchor = Position.FromVSCodePosition(selection.anchor);
+    const active = Position.FromVSCodePosition(selection.active);
+
+    return new Range(anchor.isAfter(active) ? anchor.getLeftThroughLineBreaks() : anchor, active);
+  }
+
+  /**
+   * The VSCode selection that draws this range in KakNormal. The character under
+   * the cursor is covered by the block cursor, so the selection only has to
+   * include the anchor's character, which for a backward range means moving
+   * the anchor one character right.
+   */
+  public toInclusiveSelection(): vscode.Selection {
+    const anchor = this.isForward ? this._start : this._start.getRightThroughLineBreaks();
+
+    return new vscode.Selection(anchor, this._stop);
+  }
+
+  /**
+   * Returns the same range with its anchor and cursor swapped.
+   */
+  public reversed(): Range {
+    return new Range(this._stop, this._start);
+  }
+
+  /**
+   * Returns the same range facing forward.
+   */
+  public asForward(): Range {
+    return this.isForward ? this : this.reversed();
+  }
+
   public getRight(count = 1): Range {
     return new Range(this._start.getRight(count), this._stop.getRight(count));
   }
@@ -217,6 +217,12 @@ class Configuration implements IConfiguration {
 
   history = 50;
 
+  undofile = false;
+
+  undofileMaxSize = 1024;
+
+  undofileMaxAge = 30;
+
   incsearch = true;
 
   startInInsertMode = false;
@@ -348,6 +354,10 @@ class Configuration implements IConfiguration {
   normalModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
   visualModeKeyBindings: IKeyRemapping[] = [];
   visualModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
+  kakNormalModeKeyBindings: IKeyRemapping[] = [];
+  kakNormalModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
+  kakInsertModeKeyBindings: IKeyRemapping[] = [];
+  kakInsertModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
 
   insertModeKeyBindingsMap: Map<string, IKeyRemapping>;
   insertModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
@@ -355,6 +365,12 @@ class Configuration implements IConfiguration {
   normalModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
   visualModeKeyBindingsMap: Map<string, IKeyRemapping>;
   visualModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+  kakNormalModeKeyBindingsMap: Map<string, IKeyRemapping>;
+  kakNormalModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+  kakInsertModeKeyBindingsMap: Map<string, IKeyRemapping>;
+  kakInsertModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+
+  kakrc = '';
 
   private static unproxify(obj: Object): Object {
     let result = {};
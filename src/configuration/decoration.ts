@@ -5,6 +5,7 @@ class DecorationImpl {
   private _default: vscode.TextEditorDecorationType;
   private _searchHighlight: vscode.TextEditorDecorationType;
   private _easyMotion: vscode.TextEditorDecorationType;
+  private _keyHint: vscode.TextEditorDecorationType;
 
   public set Default(value: vscode.TextEditorDecorationType) {
     if (this._default) {
@@ -39,6 +40,17 @@ class DecorationImpl {
     return this._easyMotion;
   }
 
+  public set KeyHint(value: vscode.TextEditorDecorationType) {
+    if (this._keyHint) {
+      this._keyHint.dispose();
+    }
+    this._keyHint = value;
+  }
+
+  public get KeyHint() {
+    return this._keyHint;
+  }
+
   public load(configuration: IConfiguration) {
     this.Default = vscode.window.createTextEditorDecorationType({
       backgroundColor: new vscode.ThemeColor('editorCursor.foreground'),
@@ -63,6 +75,13 @@ class DecorationImpl {
     this.EasyMotion = vscode.window.createTextEditorDecorationType({
       backgroundColor: configuration.searchHighlightColor,
     });
+
+    this.KeyHint = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        margin: '0 0 0 3em',
+      },
+    });
   }
 }
 
@@ -187,6 +187,22 @@ export interface IConfiguration {
    */
   history: number;
 
+  /**
+   * Save the undo history of a file when writing it, and restore it when the
+   * file is opened again unchanged?
+   */
+  undofile: boolean;
+
+  /**
+   * Largest undo file to save, in kilobytes
+   */
+  undofileMaxSize: number;
+
+  /**
+   * How many days an undo file is kept without being saved again
+   */
+  undofileMaxAge: number;
+
   /**
    * Show results of / or ? search as user is typing?
    */
@@ -307,6 +323,10 @@ export interface IConfiguration {
   normalModeKeyBindingsNonRecursive: IKeyRemapping[];
   visualModeKeyBindings: IKeyRemapping[];
   visualModeKeyBindingsNonRecursive: IKeyRemapping[];
+  kakNormalModeKeyBindings: IKeyRemapping[];
+  kakNormalModeKeyBindingsNonRecursive: IKeyRemapping[];
+  kakInsertModeKeyBindings: IKeyRemapping[];
+  kakInsertModeKeyBindingsNonRecursive: IKeyRemapping[];
 
   insertModeKeyBindingsMap: Map<string, IKeyRemapping>;
   insertModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
@@ -314,6 +334,15 @@ export interface IConfiguration {
   normalModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
   visualModeKeyBindingsMap: Map<string, IKeyRemapping>;
   visualModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+  kakNormalModeKeyBindingsMap: Map<string, IKeyRemapping>;
+  kakNormalModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+  kakInsertModeKeyBindingsMap: Map<string, IKeyRemapping>;
+  kakInsertModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+
+  /**
+   * File of Kakoune commands to source on startup, such as `~/.config/kak/kakrc`.
+   */
+  kakrc: string;
 
   /**
    * Comma-separated list of motion keys that should wrap to next/previous line.
@@ -3,6 +3,7 @@ export class Notation {
   private static _notationMap: { [key: string]: string[] } = {
     'C-': ['ctrl\\+', 'c\\-'],
     'D-': ['cmd\\+', 'd\\-'],
+    'a-': ['alt\\+', 'a\\-', 'm\\-'],
     Esc: ['escape', 'esc'],
     BS: ['backspace', 'bs'],
     Del: ['delete', 'del'],
@@ -10,7 +11,35 @@ export class Notation {
     End: ['end'],
     Insert: ['insert'],
     ' ': ['<space>'],
-    '\n': ['<cr>', '<enter>'],
+    '\n': ['<cr>', '<enter>', '<ret>'],
+    '<': ['<lt>'],
+    '>': ['<gt>'],
+  };
+
+  // Characters produced by shift+<key> on a US keyboard. Keys that would clash
+  // with angle bracket notation use Kakoune's names instead.
+  private static _shiftedKeys: { [key: string]: string } = {
+    '`': '~',
+    '1': '!',
+    '2': '@',
+    '3': '#',
+    '4': '$',
+    '5': '%',
+    '6': '^',
+    '7': '&',
+    '8': '*',
+    '9': '(',
+    '0': ')',
+    '-': '_',
+    '=': '+',
+    '[': '{',
+    ']': '}',
+    '\\': '|',
+    ';': ':',
+    "'": '"',
+    ',': 'lt',
+    '.': 'gt',
+    '/': '?',
   };
 
   // Converts keystroke like <tab> to a single control character like \t
@@ -65,9 +94,46 @@ export class Notation {
       }
     }
 
+    if (key.startsWith('<a-')) {
+      key = this.normalizeAltKey(key);
+    }
+
     return key;
   }
 
+  /**
+   * Normalizes the key following an alt modifier
+   * (e.g. <a-shift+k> to <a-K>, <a-shift+.> and <a->> to <a-gt>)
+   */
+  private static normalizeAltKey(key: string): string {
+    let modified = key.slice('<a-'.length, -1);
+
+    if (modified.toLocaleLowerCase().startsWith('shift+')) {
+      modified = modified.slice('shift+'.length);
+      modified = this._shiftedKeys[modified] || modified.toLocaleUpperCase();
+    }
+
+    if (modified === '<') {
+      modified = 'lt';
+    } else if (modified === '>') {
+      modified = 'gt';
+    } else if (modified.toLocaleLowerCase() === 'space' || modified === ' ') {
+      modified = 'space';
+    }
+
+    return `<a-${modified}>`;
+  }
+
+  /**
+   * Splits a sequence of keys like `x<a-d><esc>` into normalized keys. A `<`
+   * which does not start a key in angle bracket notation is a key of its own.
+   */
+  public static ParseKeySequence(sequence: string, leaderKey: string): string[] {
+    return (sequence.match(/<[^<>\s]+>|[\s\S]/g) || []).map(key =>
+      this.NormalizeKey(key, leaderKey)
+    );
+  }
+
   private static isSurroundedByAngleBrackets(key: string): boolean {
     return key.startsWith('<') && key.endsWith('>');
   }
@@ -28,9 +28,13 @@ export class Remappers implements IRemapper {
       new InsertModeRemapper(true),
       new NormalModeRemapper(true),
       new VisualModeRemapper(true),
+      new KakNormalModeRemapper(true),
+      new KakInsertModeRemapper(true),
       new InsertModeRemapper(false),
       new NormalModeRemapper(false),
       new VisualModeRemapper(false),
+      new KakNormalModeRemapper(false),
+      new KakInsertModeRemapper(false),
     ];
   }
 
@@ -111,8 +115,8 @@ export class Remapper implements IRemapper {
     }
 
     // Check to see if a remapping could potentially be applied when more keys are received
-    for (let remap of userDefinedRemappings.keys()) {
-      if (keys.join('') === remap.slice(0, keys.length)) {
+    for (let remap of userDefinedRemappings.values()) {
+      if (keys.join('') === remap.before.slice(0, keys.length).join('')) {
         this._isPotentialRemap = true;
         break;
       }
@@ -129,7 +133,7 @@ export class Remapper implements IRemapper {
     const numCharsToRemove = remapping.before.length - 1;
     // Revert previously inserted characters
     // (e.g. jj remapped to esc, we have to revert the inserted "jj")
-    if (vimState.currentMode === ModeName.Insert) {
+    if (Remapper.isInsertMode(vimState.currentMode)) {
       // Revert every single inserted character.
       // We subtract 1 because we haven't actually applied the last key.
       await vimState.historyTracker.undoAndRemoveChanges(
@@ -202,11 +206,11 @@ export class Remapper implements IRemapper {
 
       this._logger.verbose(`key=${inputtedKeys}. keySlice=${keySlice}.`);
       if (userDefinedRemappings.has(keySlice)) {
-        // In Insert mode, we allow users to precede remapped commands
+        // In Insert modes, we allow users to precede remapped commands
         // with extraneous keystrokes (eg. "hello world jj")
         // In other modes, we have to precisely match the keysequence
         // unless the preceding keys are numbers
-        if (currentMode !== ModeName.Insert) {
+        if (!Remapper.isInsertMode(currentMode)) {
           const precedingKeys = inputtedKeys
             .slice(0, inputtedKeys.length - keySlice.length)
             .join('');
@@ -227,7 +231,16 @@ export class Remapper implements IRemapper {
   }
 
   /**
-   * Given list of remappings, returns the length of the shortest and longest remapped keys
+   * Modes in which remapped keys have already been typed into the document
+   * by the time the remapping is found.
+   */
+  protected static isInsertMode(mode: ModeName): boolean {
+    return mode === ModeName.Insert || mode === ModeName.KakInsert;
+  }
+
+  /**
+   * Given list of remappings, returns the length of the shortest and longest remapped keys.
+   * Lengths are counted in keys rather than characters, so <a-x> has a length of 1.
    * @param remappings
    */
   protected static getRemappedKeysLengthRange(
@@ -236,7 +249,7 @@ export class Remapper implements IRemapper {
     if (remappings.size === 0) {
       return [0, 0];
     }
-    const keyLengths = Array.from(remappings.keys()).map(k => k.length);
+    const keyLengths = Array.from(remappings.values()).map(r => r.before.length);
     return [Math.min(...keyLengths), Math.max(...keyLengths)];
   }
 }
@@ -270,3 +283,23 @@ class VisualModeRemapper extends Remapper {
     );
   }
 }
+
+class KakNormalModeRemapper extends Remapper {
+  constructor(recursive: boolean) {
+    super(
+      'kakNormalModeKeyBindings' + (recursive ? '' : 'NonRecursive') + 'Map',
+      [ModeName.KakNormal],
+      recursive
+    );
+  }
+}
+
+class KakInsertModeRemapper extends Remapper {
+  constructor(recursive: boolean) {
+    super(
+      'kakInsertModeKeyBindings' + (recursive ? '' : 'NonRecursive') + 'Map',
+      [ModeName.KakInsert],
+      recursive
+    );
+  }
+}
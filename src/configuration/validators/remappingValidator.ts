@@ -15,6 +15,10 @@ export class RemappingValidator implements IConfigurationValidator {
       'normalModeKeyBindingsNonRecursive',
       'visualModeKeyBindings',
       'visualModeKeyBindingsNonRecursive',
+      'kakNormalModeKeyBindings',
+      'kakNormalModeKeyBindingsNonRecursive',
+      'kakInsertModeKeyBindings',
+      'kakInsertModeKeyBindingsNonRecursive',
     ];
     for (const modeKeyBindingsKey of modeKeyBindingsKeys) {
       let keybindings = config[modeKeyBindingsKey];
@@ -7,10 +7,15 @@ export enum ErrorCode {
   E32 = 32,
   E35 = 35,
   E37 = 37,
+  E89 = 89,
+  E93 = 93,
+  E94 = 94,
+  E114 = 114,
   E208 = 208,
   E348 = 348,
   E444 = 444,
   E474 = 474,
+  E484 = 484,
   E486 = 486,
   E488 = 488,
   E492 = 492,
@@ -22,10 +27,15 @@ export const ErrorMessage: IErrorMessage = {
   32: 'No file name',
   35: 'No previous regular expression',
   37: 'No write since last change (add ! to override)',
+  89: 'No write since last change for buffer (add ! to override)',
+  93: 'More than one match',
+  94: 'No matching buffer',
+  114: 'Missing quote',
   208: 'Error writing to file',
   348: 'No string under cursor',
   444: 'Cannot close last window',
   474: 'Invalid argument',
+  484: "Can't open file",
   486: 'Pattern not found',
   488: 'Trailing characters',
   492: 'Not an editor command',
@@ -1,13 +1,14 @@
 /**
  * HistoryTracker is a handrolled undo/redo tracker for VSC. We currently
- * track history as a list of "steps", each of which consists of 1 or more
+ * track history as a tree of "steps", each of which consists of 1 or more
  * "changes".
  *
  * A Change is something like adding or deleting a few letters.
  *
  * A Step is multiple Changes.
  *
- * Undo/Redo will advance forward or backwards through Steps.
+ * Undo/Redo will advance forward or backwards through Steps. Making a change
+ * after an undo starts a new branch of the tree, so no Step is ever lost.
  */
 import DiffMatchPatch = require('diff-match-patch');
 import * as vscode from 'vscode';
@@ -17,6 +18,8 @@ import { RecordedState } from './../state/recordedState';
 import { Logger } from './../util/logger';
 import { VimState } from './../state/vimState';
 import { TextEditor } from './../textEditor';
+import { configuration } from './../configuration/configuration';
+import { ISerializedHistory, ISerializedPosition, UndoFile } from './undoFile';
 
 const diffEngine = new DiffMatchPatch.diff_match_patch();
 diffEngine.Diff_Timeout = 1; // 1 second
@@ -64,6 +67,31 @@ export interface IMark {
   isUppercaseMark: boolean;
 }
 
+/**
+ * The end of one branch of the undo tree.
+ */
+export interface IHistoryBranch {
+  /**
+   * The index of the last step of the branch.
+   */
+  index: number;
+
+  /**
+   * How many steps the branch is made of.
+   */
+  changes: number;
+
+  /**
+   * When the last step of the branch was made.
+   */
+  timestamp: Date;
+
+  /**
+   * Whether the current step is on this branch.
+   */
+  isCurrent: boolean;
+}
+
 class HistoryStep {
   /**
    * The insertions and deletions that occured in this history step.
@@ -90,6 +118,23 @@ class HistoryStep {
    */
   marks: IMark[] = [];
 
+  /**
+   * The index of the step this one was made on top of, or undefined for the
+   * initial step.
+   */
+  parent: number | undefined;
+
+  /**
+   * The index of the child step that redo goes to: the one most recently made
+   * or undone.
+   */
+  redoChild: number | undefined;
+
+  /**
+   * When this history step was started.
+   */
+  timestamp: Date;
+
   vimState: VimState;
 
   constructor(init: {
@@ -98,6 +143,7 @@ class HistoryStep {
     cursorStart?: Position[] | undefined;
     cursorEnd?: Position[] | undefined;
     marks?: IMark[];
+    parent?: number;
   }) {
     // This is a bug, but fixing it causes regressions. See PR #2081.
     this.changes = init.changes = [];
@@ -105,6 +151,8 @@ class HistoryStep {
     this.cursorStart = init.cursorStart || undefined;
     this.cursorEnd = init.cursorEnd || undefined;
     this.marks = init.marks || [];
+    this.parent = init.parent;
+    this.timestamp = new Date();
   }
 
   /**
@@ -165,12 +213,12 @@ export class HistoryTracker {
   public lastInvokedMacro: RecordedState;
 
   /**
-   * The entire Undo/Redo stack.
+   * Every step of the Undo/Redo tree, in the order they were made.
    */
   private historySteps: HistoryStep[] = [];
 
   /**
-   * Our index in the Undo/Redo stack.
+   * Our index in the Undo/Redo tree.
    */
   private currentHistoryStepIndex = 0;
 
@@ -235,10 +283,12 @@ export class HistoryTracker {
     this.historySteps.push(
       new HistoryStep({
         marks: this.currentHistoryStep.marks,
+        parent: this.currentHistoryStepIndex,
       })
     );
 
-    this.currentHistoryStepIndex++;
+    this.currentHistoryStep.redoChild = this.historySteps.length - 1;
+    this.currentHistoryStepIndex = this.historySteps.length - 1;
   }
 
   /**
@@ -386,13 +436,10 @@ export class HistoryTracker {
     // Determine if we should add a new Step.
 
     if (
-      this.currentHistoryStepIndex === this.historySteps.length - 1 &&
-      this.currentHistoryStep.isFinished
+      this.currentHistoryStep.isFinished ||
+      this.currentHistoryStepIndex !== this.historySteps.length - 1
     ) {
-      this._addNewHistoryStep();
-    } else if (this.currentHistoryStepIndex !== this.historySteps.length - 1) {
-      this.historySteps = this.historySteps.slice(0, this.currentHistoryStepIndex + 1);
-
+      // After an undo, this starts a new branch next to the undone steps
       this._addNewHistoryStep();
     }
 
@@ -501,7 +548,7 @@ export class HistoryTracker {
     }
 
     if (this.currentHistoryStep.changes.length === 0) {
-      this.currentHistoryStepIndex--;
+      this.currentHistoryStepIndex = this.currentHistoryStep.parent!;
 
       if (this.currentHistoryStepIndex === 0) {
         return undefined;
@@ -510,13 +557,47 @@ export class HistoryTracker {
 
     step = this.currentHistoryStep;
 
-    for (const change of step.changes.slice(0).reverse()) {
+    await this._undoCurrentStep();
+
+    return step && step.cursorStart;
+  }
+
+  /**
+   * Reverts the current step and moves to its parent, remembering the step so
+   * that redo comes back to it.
+   */
+  private async _undoCurrentStep(): Promise<void> {
+    const index = this.currentHistoryStepIndex;
+
+    for (const change of this.currentHistoryStep.changes.slice(0).reverse()) {
       await change!.undo();
     }
 
-    this.currentHistoryStepIndex--;
+    this.currentHistoryStepIndex = this.currentHistoryStep.parent!;
+    this.currentHistoryStep.redoChild = index;
+  }
 
-    return step && step.cursorStart;
+  /**
+   * Applies the child step at `index` of the current step and moves to it.
+   */
+  private async _redoStep(index: number): Promise<void> {
+    this.currentHistoryStep.redoChild = index;
+    this.currentHistoryStepIndex = index;
+
+    for (const change of this.currentHistoryStep.changes) {
+      await change.do();
+    }
+  }
+
+  /**
+   * The indices of the steps from `index` up to the initial step, inclusive.
+   */
+  private _getPathToRoot(index: number): number[] {
+    const path: number[] = [];
+    for (let i: number | undefined = index; i !== undefined; i = this.historySteps[i].parent) {
+      path.push(i);
+    }
+    return path;
   }
 
   /**
@@ -546,13 +627,15 @@ export class HistoryTracker {
     }
 
     if (this.currentHistoryStep.changes.length === 0) {
-      this.currentHistoryStepIndex--;
+      this.currentHistoryStepIndex = this.currentHistoryStep.parent!;
 
       if (this.currentHistoryStepIndex === 0) {
         return undefined;
       }
     }
 
+    const stepsOnPath = this._getPathToRoot(this.currentHistoryStepIndex);
+
     let lastChange = this.currentHistoryStep.changes[0];
     let currentLine = this.currentHistoryStep.changes[this.currentHistoryStep.changes.length - 1]
       .start.line;
@@ -563,8 +646,8 @@ export class HistoryTracker {
       currentLine++;
     }
 
-    for (const step of this.historySteps.slice(1, this.currentHistoryStepIndex + 1).reverse()) {
-      for (let change of step.changes.reverse()) {
+    for (const step of stepsOnPath.slice(0, -1).map(i => this.historySteps[i])) {
+      for (let change of step.changes.slice(0).reverse()) {
         /*
          * This conditional accounts for the behavior where the change is a newline
          * followed by text to undo. Note the line offset behavior that must be compensated.
@@ -597,26 +680,27 @@ export class HistoryTracker {
       stepsToUndo++;
     }
 
-    // Note that reverse() is call-by-reference, so the changes are already in reverse order
+    // The changes are already in reverse order
     for (const change of changesToUndo) {
       await change!.undo();
-      change.isAdd = !change.isAdd;
-    }
-
-    for (let count = stepsToUndo; count > 0; count--) {
-      this.historySteps.pop();
     }
 
+    // The undone steps stay in the tree, on a branch of their own
     const newStep = new HistoryStep({
       isFinished: true,
       cursorStart: [lastChange.start],
       cursorEnd: [lastChange.start],
+      marks: this.currentHistoryStep.marks,
+      parent: stepsOnPath[stepsToUndo],
     });
-    newStep.changes = changesToUndo;
+    newStep.changes = changesToUndo.map(
+      change => new DocumentChange(change.start, change.text, !change.isAdd)
+    );
 
     this.historySteps.push(newStep);
 
-    this.currentHistoryStepIndex = this.currentHistoryStepIndex - stepsToUndo + 1;
+    this.currentHistoryStepIndex = this.historySteps.length - 1;
+    this.historySteps[newStep.parent!].redoChild = this.currentHistoryStepIndex;
 
     /*
      * Unlike the goBackHistoryStep() function, this function does not trust the
@@ -632,21 +716,98 @@ export class HistoryTracker {
    * forward to go.
    */
   async goForwardHistoryStep(): Promise<Position[] | undefined> {
-    let step: HistoryStep;
+    const redoChild = this.currentHistoryStep.redoChild;
 
-    if (this.currentHistoryStepIndex === this.historySteps.length - 1) {
+    if (redoChild === undefined) {
       return undefined;
     }
 
-    this.currentHistoryStepIndex++;
+    await this._redoStep(redoChild);
 
-    step = this.currentHistoryStep;
+    return this.currentHistoryStep.cursorStart;
+  }
 
-    for (const change of step.changes) {
-      await change.do();
+  /**
+   * Moves to the step at `index`, wherever it is in the tree, by undoing up to
+   * the closest step it shares with the current one and redoing down from
+   * there. Returns undefined if there is no such step or we are already there.
+   */
+  async goToHistoryStep(index: number): Promise<Position[] | undefined> {
+    if (index < 0 || index >= this.historySteps.length || index === this.currentHistoryStepIndex) {
+      return undefined;
     }
 
-    return step.cursorStart;
+    const targetPath = this._getPathToRoot(index);
+    let positions: Position[] | undefined;
+
+    while (!targetPath.includes(this.currentHistoryStepIndex)) {
+      positions = this.currentHistoryStep.cursorStart;
+      await this._undoCurrentStep();
+    }
+
+    for (const step of targetPath
+      .slice(0, targetPath.indexOf(this.currentHistoryStepIndex))
+      .reverse()) {
+      await this._redoStep(step);
+      positions = this.currentHistoryStep.cursorStart;
+    }
+
+    return positions;
+  }
+
+  /**
+   * Moves `count` steps back, or forward when negative, in the order the steps
+   * were made, regardless of which branch they are on. Stops at either end of
+   * the history.
+   */
+  async goChronologically(count: number): Promise<Position[] | undefined> {
+    const index = Math.max(
+      0,
+      Math.min(this.historySteps.length - 1, this.currentHistoryStepIndex + count)
+    );
+    return this.goToHistoryStep(index);
+  }
+
+  /**
+   * Moves to the last step made by the time the current one was made plus
+   * `seconds`, which is negative to go back in time.
+   */
+  async goToTimeOffset(seconds: number): Promise<Position[] | undefined> {
+    const time = this.currentHistoryStep.timestamp.getTime() + seconds * 1000;
+
+    let index = 0;
+    while (
+      index + 1 < this.historySteps.length &&
+      this.historySteps[index + 1].timestamp.getTime() <= time
+    ) {
+      index++;
+    }
+
+    return this.goToHistoryStep(index);
+  }
+
+  /**
+   * The steps that nothing was made on top of, which are the ends of every
+   * branch of the tree, in the order they were made.
+   */
+  getHistoryBranches(): IHistoryBranch[] {
+    const branches: IHistoryBranch[] = [];
+
+    for (let index = 1; index < this.historySteps.length; index++) {
+      if (this.historySteps.some(step => step.parent === index)) {
+        continue;
+      }
+
+      const path = this._getPathToRoot(index);
+      branches.push({
+        index,
+        changes: path.length - 1,
+        timestamp: this.historySteps[index].timestamp,
+        isCurrent: path.includes(this.currentHistoryStepIndex),
+      });
+    }
+
+    return branches;
   }
 
   getLastHistoryEndPosition(): Position[] | undefined {
@@ -707,6 +868,88 @@ export class HistoryTracker {
     return pos;
   }
 
+  /**
+   * Replaces the history with the one saved in the undo file of the document,
+   * if it was saved with the document as it is now.
+   */
+  async loadUndoFile(): Promise<void> {
+    const document = this.vimState.editor && this.vimState.editor.document;
+    if (!configuration.undofile || !document || document.isUntitled) {
+      return;
+    }
+
+    const history = await new UndoFile(document.fileName).load(document.getText());
+    if (history === undefined) {
+      return;
+    }
+
+    const toPosition = (position: ISerializedPosition) =>
+      new Position(position.line, position.character);
+
+    this.historySteps = history.steps.map(serializedStep => {
+      const step = new HistoryStep({
+        isFinished: true,
+        cursorStart: serializedStep.cursorStart && serializedStep.cursorStart.map(toPosition),
+        cursorEnd: serializedStep.cursorEnd && serializedStep.cursorEnd.map(toPosition),
+        marks: serializedStep.marks.map(mark => ({ ...mark, position: toPosition(mark.position) })),
+        parent: serializedStep.parent,
+      });
+      step.changes = serializedStep.changes.map(
+        change => new DocumentChange(toPosition(change.start), change.text, change.isAdd)
+      );
+      step.redoChild = serializedStep.redoChild;
+      step.timestamp = new Date(serializedStep.timestamp);
+      return step;
+    });
+    this.currentHistoryStepIndex = history.currentStepIndex;
+    this.changelistIndex = history.changelistIndex;
+    this.oldText = this._getDocumentText();
+  }
+
+  /**
+   * Saves the history to the undo file of the document, which is only used
+   * again if the document is opened with the same text.
+   */
+  async saveUndoFile(): Promise<void> {
+    const document = this.vimState.editor && this.vimState.editor.document;
+    if (!configuration.undofile || !document || document.isUntitled) {
+      return;
+    }
+
+    // Edits which didn't come through Vim, like formatting on save, become a
+    // step of their own, so that the history leads up to the saved text
+    const text = document.getText();
+    if (text !== this.oldText) {
+      this.addChange(this.vimState.cursors.map(cursor => cursor.stop));
+      this.finishCurrentStep();
+    }
+
+    const fromPosition = (position: Position) => ({
+      line: position.line,
+      character: position.character,
+    });
+
+    const history: ISerializedHistory = {
+      steps: this.historySteps.map(step => ({
+        changes: step.changes.map(change => ({
+          start: fromPosition(change.start),
+          text: change.text,
+          isAdd: change.isAdd,
+        })),
+        cursorStart: step.cursorStart && step.cursorStart.map(fromPosition),
+        cursorEnd: step.cursorEnd && step.cursorEnd.map(fromPosition),
+        marks: step.marks.map(mark => ({ ...mark, position: fromPosition(mark.position) })),
+        parent: step.parent,
+        redoChild: step.redoChild,
+        timestamp: step.timestamp.getTime(),
+      })),
+      currentStepIndex: this.currentHistoryStepIndex,
+      changelistIndex: this.changelistIndex,
+    };
+
+    await new UndoFile(document.fileName).save(text, history);
+  }
+
   /**
    * Handy for debugging the undo/redo stack. + means our current position, check
    * means active.
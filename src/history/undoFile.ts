@@ -0,0 +1,161 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../util/logger';
+import { configuration } from '../configuration/configuration';
+import { getExtensionDirPath } from '../util/util';
+import { promisify } from 'util';
+
+const mkdirp = require('mkdirp');
+
+/**
+ * The version of the undo file format, bumped whenever it changes so older
+ * files are ignored.
+ */
+const undoFileVersion = 1;
+
+export interface ISerializedPosition {
+  line: number;
+  character: number;
+}
+
+export interface ISerializedHistoryStep {
+  changes: Array<{ start: ISerializedPosition; text: string; isAdd: boolean }>;
+  cursorStart: ISerializedPosition[] | undefined;
+  cursorEnd: ISerializedPosition[] | undefined;
+  marks: Array<{ name: string; position: ISerializedPosition; isUppercaseMark: boolean }>;
+  parent: number | undefined;
+  redoChild: number | undefined;
+  timestamp: number;
+}
+
+/**
+ * Everything the HistoryTracker needs to pick up the undo tree where it left off.
+ */
+export interface ISerializedHistory {
+  steps: ISerializedHistoryStep[];
+  currentStepIndex: number;
+  changelistIndex: number;
+}
+
+interface IUndoFileContents {
+  version: number;
+  fileName: string;
+  /**
+   * The hash of the document text the history leads up to.
+   */
+  hash: string;
+  history: ISerializedHistory;
+}
+
+function hash(text: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(text)
+    .digest('hex');
+}
+
+/**
+ * The undo tree of one document, saved next to the command and search history
+ * like Vim's 'undofile'. It is only used again if the document has not been
+ * changed outside the editor since.
+ */
+export class UndoFile {
+  private readonly _logger = Logger.get('UndoFile');
+  private _fileName: string;
+  private _undoDir: string;
+
+  public get undoFilePath(): string {
+    return path.join(this._undoDir, hash(this._fileName) + '.json');
+  }
+
+  constructor(fileName: string, undoDir?: string) {
+    this._fileName = fileName;
+    this._undoDir = undoDir ? undoDir : path.join(getExtensionDirPath(), 'undo');
+  }
+
+  /**
+   * Reads the history saved for the document, as long as it was saved when the
+   * document had `text` and is not older than `vim.undofileMaxAge`.
+   */
+  public async load(text: string): Promise<ISerializedHistory | undefined> {
+    let data = '';
+
+    try {
+      const stats = await promisify(fs.stat)(this.undoFilePath);
+      const ageInDays = (Date.now() - stats.mtime.getTime()) / (24 * 60 * 60 * 1000);
+      if (ageInDays > configuration.undofileMaxAge) {
+        this._logger.debug(`Deleting expired undo file. path=${this.undoFilePath}`);
+        this.clear();
+        return undefined;
+      }
+
+      data = await promisify(fs.readFile)(this.undoFilePath, 'utf-8');
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        this._logger.debug(`Undo file does not exist. path=${this.undoFilePath}`);
+      } else {
+        this._logger.warn(`Failed to load undo file. path=${this.undoFilePath} err=${err}.`);
+      }
+      return undefined;
+    }
+
+    let contents: IUndoFileContents;
+    try {
+      contents = JSON.parse(data);
+    } catch (e) {
+      this._logger.warn(`Deleting corrupted undo file. path=${this.undoFilePath} err=${e}.`);
+      this.clear();
+      return undefined;
+    }
+
+    if (
+      contents.version !== undoFileVersion ||
+      contents.fileName !== this._fileName ||
+      contents.hash !== hash(text)
+    ) {
+      this._logger.debug(`Ignoring undo file for a different text. path=${this.undoFilePath}`);
+      return undefined;
+    }
+
+    return contents.history;
+  }
+
+  /**
+   * Saves the history of the document, which has `text` at the end of it. A
+   * history bigger than `vim.undofileMaxSize` is not saved at all.
+   */
+  public async save(text: string, history: ISerializedHistory): Promise<void> {
+    const contents: IUndoFileContents = {
+      version: undoFileVersion,
+      fileName: this._fileName,
+      hash: hash(text),
+      history,
+    };
+    const data = JSON.stringify(contents);
+
+    if (Buffer.byteLength(data) > configuration.undofileMaxSize * 1024) {
+      this._logger.debug(`Undo history too big to save. path=${this.undoFilePath}`);
+      this.clear();
+      return;
+    }
+
+    try {
+      // create supplied directory. if directory already exists, do nothing.
+      await promisify(mkdirp)(this._undoDir, 0o775);
+      await promisify(fs.writeFile)(this.undoFilePath, data, 'utf-8');
+    } catch (err) {
+      this._logger.error(`Failed to save undo file. filepath=${this.undoFilePath}. err=${err}.`);
+    }
+  }
+
+  public clear() {
+    try {
+      fs.unlinkSync(this.undoFilePath);
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        this._logger.warn(`Unable to delete ${this.undoFilePath}. err=${err}.`);
+      }
+    }
+  }
+}
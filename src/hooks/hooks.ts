@@ -0,0 +1,112 @@
+import * as parser from '../cmd_line/parser';
+import { VimError } from '../error';
+import { Logger } from '../util/logger';
+import { StatusBar } from '../statusBar';
+import { VimState } from '../state/vimState';
+
+/**
+ * The events hooks can run on, and what their filters are matched against:
+ *   ModeChange   `<old mode>:<new mode>`, such as `KakInsert:KakNormal`
+ *   BufWritePre  the path of the document about to be written
+ *   BufWritePost the path of the document which was written
+ *   InsertChar   the character typed in KakInsert mode
+ *   NormalKey    the key pressed in KakNormal mode
+ *   NormalIdle   nothing, once no key is pressed in KakNormal mode for `timeout`
+ *   BufOpen      the path of the document of a new editor
+ */
+export type HookEvent =
+  | 'ModeChange'
+  | 'BufWritePre'
+  | 'BufWritePost'
+  | 'InsertChar'
+  | 'NormalKey'
+  | 'NormalIdle'
+  | 'BufOpen';
+
+export const hookEvents: HookEvent[] = [
+  'ModeChange',
+  'BufWritePre',
+  'BufWritePost',
+  'InsertChar',
+  'NormalKey',
+  'NormalIdle',
+  'BufOpen',
+];
+
+export interface IHook {
+  event: HookEvent;
+
+  /** Matched against the whole parameter of the event */
+  filter: RegExp;
+
+  /** The Kakoune commands to run */
+  commands: string;
+
+  /** The group the hook is removed with, if any */
+  group?: string;
+
+  /** Set for hooks which are removed once they have run */
+  once: boolean;
+}
+
+class Hooks {
+  private readonly _logger = Logger.get('Hooks');
+  private _hooks: IHook[] = [];
+
+  /**
+   * Set while hooks run, so that what their commands do triggers no hooks
+   */
+  private _isRunning = false;
+
+  public add(hook: IHook): void {
+    this._hooks.push(hook);
+  }
+
+  public removeGroup(group: string): void {
+    this._hooks = this._hooks.filter(hook => hook.group !== group);
+  }
+
+  public clear(): void {
+    this._hooks = [];
+  }
+
+  /**
+   * Runs the hooks of `event` whose filter matches `param`, one after the other.
+   * Returns whether any hook ran.
+   */
+  public async run(event: HookEvent, param: string, vimState: VimState): Promise<boolean> {
+    if (this._isRunning) {
+      return false;
+    }
+
+    const matching = this._hooks.filter(hook => hook.event === event && hook.filter.test(param));
+    if (matching.length === 0) {
+      return false;
+    }
+
+    this._hooks = this._hooks.filter(hook => !(hook.once && matching.includes(hook)));
+
+    this._isRunning = true;
+    try {
+      for (const hook of matching) {
+        this._logger.debug(`running ${event} hook. param=${param}.`);
+        try {
+          await parser.parseKakoune(hook.commands).execute(vimState);
+        } catch (e) {
+          StatusBar.Set(
+            `${event} hook: ${e instanceof VimError ? e.toString() : e.message}`,
+            vimState.currentMode,
+            vimState.isRecordingMacro,
+            true
+          );
+        }
+      }
+    } finally {
+      this._isRunning = false;
+    }
+
+    return true;
+  }
+}
+
+export const hooks = new Hooks();
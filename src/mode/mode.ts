@@ -5,6 +5,7 @@ export enum ModeName {
   Normal,
   KakNormal,
   KakInsert,
+  KakView,
   Insert,
   Visual,
   VisualBlock,
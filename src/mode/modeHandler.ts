@@ -34,11 +34,23 @@ import {
 } from './../transformations/transformations';
 import { globalState } from '../state/globalState';
 import { ReportSearch } from '../util/statusBarTextUtils';
+import { hooks } from '../hooks/hooks';
+
+/**
+ * The KakNormal prefixes whose continuations are shown as a key hint.
+ */
+const keyHintPrefixes = ['g', 'G', 'v', 'V'];
 
 export class ModeHandler implements vscode.Disposable {
   private _disposables: vscode.Disposable[] = [];
   private _modes: Mode[];
   private _remappers: Remappers;
+  private _normalIdleTimeout: NodeJS.Timer | undefined;
+  /**
+   * How many keys are being handled, counting keys sent by remappings.
+   */
+  private _keysBeingHandled = 0;
+  private _keyHint = '';
   private readonly _logger = Logger.get('ModeHandler');
 
   public vimState: VimState;
@@ -49,6 +61,7 @@ export class ModeHandler implements vscode.Disposable {
 
   public static async Create(textEditor = vscode.window.activeTextEditor!): Promise<ModeHandler> {
     const modeHandler = new ModeHandler(textEditor);
+    await modeHandler.vimState.historyTracker.loadUndoFile();
     await modeHandler.setCurrentMode(
       configuration.startInInsertMode ? ModeName.KakInsert : ModeName.KakNormal
     );
@@ -62,6 +75,7 @@ export class ModeHandler implements vscode.Disposable {
       new modes.NormalMode(),
       new modes.KakNormalMode(),
       new modes.KakInsertMode(),
+      new modes.KakViewMode(),
       new modes.InsertMode(),
       new modes.VisualMode(),
       new modes.VisualBlockMode(),
@@ -118,15 +132,17 @@ export class ModeHandler implements vscode.Disposable {
       this.vimState.currentMode !== ModeName.VisualBlock
     ) {
       // Number of selections changed, make sure we know about all of them still
-      this.vimState.cursors = e.textEditor.selections.map(
-        sel =>
-          new Range(
-            // Adjust the cursor positions because cursors & selections don't match exactly
-            sel.anchor.compareTo(sel.active) > 0
-              ? Position.FromVSCodePosition(sel.anchor).getLeft()
-              : Position.FromVSCodePosition(sel.anchor),
-            Position.FromVSCodePosition(sel.active)
-          )
+      this.vimState.cursors = e.textEditor.selections.map(sel =>
+        this.vimState.currentMode === ModeName.KakNormal ||
+        this.vimState.currentMode === ModeName.KakView
+          ? Range.FromInclusiveSelection(sel)
+          : new Range(
+              // Adjust the cursor positions because cursors & selections don't match exactly
+              sel.anchor.compareTo(sel.active) > 0
+                ? Position.FromVSCodePosition(sel.anchor).getLeft()
+                : Position.FromVSCodePosition(sel.anchor),
+              Position.FromVSCodePosition(sel.active)
+            )
       );
       return this.updateView(this.vimState);
     }
@@ -265,9 +281,11 @@ export class ModeHandler implements vscode.Disposable {
       key = '<D-d>';
     }
 
+    const mode = this.vimState.currentMode;
     this.vimState.cursorsInitialState = this.vimState.cursors;
     this.vimState.recordedState.commandList.push(key);
 
+    this._keysBeingHandled++;
     try {
       const isWithinTimeout = now - this.vimState.lastKeyPressedTimestamp < configuration.timeout;
       if (!isWithinTimeout) {
@@ -315,9 +333,14 @@ export class ModeHandler implements vscode.Disposable {
       } else {
         throw new Error(`Failed to handle key=${key}. ${e.message}`);
       }
+    } finally {
+      this._keysBeingHandled--;
     }
 
+    await this.runKeyHooks(key, mode);
+
     this.vimState.lastKeyPressedTimestamp = now;
+    this._renderKeyHint();
     this._renderStatusBar();
 
     return true;
@@ -428,6 +451,7 @@ export class ModeHandler implements vscode.Disposable {
   ): Promise<VimState> {
     let ranRepeatableAction = false;
     let ranAction = false;
+    const modeBeforeAction = vimState.currentMode;
 
     // If arrow keys or mouse was used prior to entering characters while in insert mode, create an undo point
     // this needs to happen before any changes are made
@@ -538,14 +562,20 @@ export class ModeHandler implements vscode.Disposable {
       }
     }
 
-    if (ranAction && vimState.currentMode !== ModeName.Insert) {
+    if (
+      ranAction &&
+      vimState.currentMode !== ModeName.Insert &&
+      vimState.currentMode !== ModeName.KakInsert
+    ) {
       vimState.recordedState.resetCommandList();
     }
 
     ranRepeatableAction =
       (ranRepeatableAction && vimState.currentMode === ModeName.Normal) ||
       this.createUndoPointForBrackets(vimState);
-    ranAction = ranAction && vimState.currentMode === ModeName.Normal;
+    ranAction =
+      ranAction &&
+      (vimState.currentMode === ModeName.Normal || vimState.currentMode === ModeName.KakNormal);
 
     // Record down previous action and flush temporary state
     if (ranRepeatableAction) {
@@ -601,11 +631,19 @@ export class ModeHandler implements vscode.Disposable {
       }
     }
 
-    // Don't record an undo point for every action of a macro, only at the very end
-    if (ranRepeatableAction && !vimState.isReplayingMacro) {
+    // Don't record an undo point for every action of a macro, only at the very end.
+    // Every KakNormal command is a step of its own, as is a whole KakInsert session.
+    if (
+      (ranRepeatableAction || vimState.currentMode === ModeName.KakNormal) &&
+      !vimState.isReplayingMacro
+    ) {
       vimState.historyTracker.finishCurrentStep();
     }
 
+    if (!vimState.isRunningDotCommand) {
+      globalState.kakRepeatState.record(action, modeBeforeAction, vimState.currentMode);
+    }
+
     recordedState.actionKeys = [];
     vimState.currentRegisterMode = RegisterMode.AscertainFromCurrentMode;
 
@@ -950,6 +988,22 @@ export class ModeHandler implements vscode.Disposable {
 
           globalState.previousFullAction = clonedAction;
           break;
+        case 'kakRepeat':
+          const repeatState = globalState.kakRepeatState;
+          const keys =
+            command.repeat === 'insert'
+              ? repeatState.lastInsertKeys
+              : repeatState.lastSelectionKeys;
+          if (!keys) {
+            return vimState;
+          }
+
+          // Replaying must not replace what is being replayed
+          vimState.isRunningDotCommand = true;
+          this.vimState.recordedState = new RecordedState();
+          await this.handleMultipleKeyEvents(keys);
+          vimState.isRunningDotCommand = false;
+          break;
         case 'macro':
           let recordedMacro = (await Register.getByKey(command.register)).text as RecordedState;
 
@@ -1206,12 +1260,17 @@ export class ModeHandler implements vscode.Disposable {
       if (vimState.currentMode === ModeName.CommandlineInProgress) {
         selectionMode = commandLine.previousMode;
       }
+      if (vimState.currentMode === ModeName.KakView) {
+        selectionMode = ModeName.KakNormal;
+      }
 
       if (!vimState.isMultiCursor) {
         let start = vimState.cursorStartPosition;
         let stop = vimState.cursorStopPosition;
 
-        if (selectionMode === ModeName.Visual || selectionMode === ModeName.KakNormal) {
+        if (selectionMode === ModeName.KakNormal) {
+          selections = [vimState.cursors[0].toInclusiveSelection()];
+        } else if (selectionMode === ModeName.Visual) {
           /**
            * Always select the letter that we started visual mode on, no matter
            * if we are in front or behind it. Imagine that we started visual mode
@@ -1267,7 +1326,10 @@ export class ModeHandler implements vscode.Disposable {
         // MultiCursor mode is active.
         selections = [];
         switch (selectionMode) {
-          case ModeName.KakNormal:
+          case ModeName.KakNormal: {
+            selections = vimState.cursors.map(x => x.toInclusiveSelection());
+            break;
+          }
           case ModeName.Visual: {
             for (let { start: cursorStart, stop: cursorStop } of vimState.cursors) {
               if (cursorStart.compareTo(cursorStop) > 0) {
@@ -1309,10 +1371,10 @@ export class ModeHandler implements vscode.Disposable {
 
       this.vimState.editor.revealRange(new vscode.Range(nextMatch, nextMatch));
     } else {
-      if (args.revealRange) {
-        this.vimState.editor.revealRange(
-          new vscode.Range(vimState.cursorStopPosition, vimState.cursorStopPosition)
-        );
+      // A pending view change decides what to show by itself
+      if (args.revealRange && this.vimState.postponedCodeViewChanges.length === 0) {
+        const mainStop = vimState.mainSelection.stop;
+        this.vimState.editor.revealRange(new vscode.Range(mainStop, mainStop));
       }
     }
 
@@ -1419,6 +1481,46 @@ export class ModeHandler implements vscode.Disposable {
     }
   }
 
+  /**
+   * Runs the hooks of a key which was pressed in `mode`, then waits for
+   * KakNormal mode to go idle.
+   */
+  private async runKeyHooks(key: string, mode: ModeName): Promise<void> {
+    if (this._normalIdleTimeout !== undefined) {
+      clearTimeout(this._normalIdleTimeout);
+      this._normalIdleTimeout = undefined;
+    }
+
+    let ranHooks = false;
+    if (mode === ModeName.KakNormal) {
+      ranHooks = await hooks.run('NormalKey', key, this.vimState);
+    } else if (mode === ModeName.KakInsert && key.length === 1) {
+      ranHooks = await hooks.run('InsertChar', key, this.vimState);
+    }
+
+    if (ranHooks) {
+      await this.updateView(this.vimState);
+    }
+
+    if (this.vimState.currentMode === ModeName.KakNormal) {
+      this._normalIdleTimeout = setTimeout(async () => {
+        this._normalIdleTimeout = undefined;
+        // A key being handled isn't idle, and arms the timer again when done
+        if (this._keysBeingHandled > 0 || this.vimState.currentMode !== ModeName.KakNormal) {
+          return;
+        }
+
+        try {
+          if (await hooks.run('NormalIdle', '', this.vimState)) {
+            await this.updateView(this.vimState);
+          }
+        } catch (e) {
+          this._logger.error(`Failed to run NormalIdle hooks. err=${e.message}`);
+        }
+      }, configuration.timeout);
+    }
+  }
+
   private async setCurrentMode(modeName: ModeName): Promise<void> {
     await this.vimState.setCurrentMode(modeName);
     for (let mode of this._modes) {
@@ -1426,6 +1528,43 @@ export class ModeHandler implements vscode.Disposable {
     }
   }
 
+  /**
+   * Lists the keys that can follow a pending goto or view prefix (`g`, `G`,
+   * `v` or `V`), or the keys of locked view mode, at the end of the main
+   * selection's line.
+   */
+  private _renderKeyHint(): void {
+    const { actionKeys } = this.vimState.recordedState;
+    const isPrefixPending =
+      this.vimState.currentMode === ModeName.KakNormal &&
+      actionKeys.length === 1 &&
+      keyHintPrefixes.includes(actionKeys[0]);
+
+    let text = '';
+    if (isPrefixPending || this.vimState.currentMode === ModeName.KakView) {
+      text = Actions.getContinuations(actionKeys, this.vimState)
+        .map(({ key, description }) => (description ? `${key}: ${description}` : key))
+        .join('   ');
+    }
+
+    const lineEnd = this.vimState.mainSelection.stop.getLineEnd();
+    const keyHint = text ? `${lineEnd.line}:${lineEnd.character}:${text}` : '';
+    if (keyHint === this._keyHint) {
+      return;
+    }
+    this._keyHint = keyHint;
+
+    const hints: vscode.DecorationOptions[] = text
+      ? [
+          {
+            range: new vscode.Range(lineEnd, lineEnd),
+            renderOptions: { after: { contentText: text } },
+          },
+        ]
+      : [];
+    this.vimState.editor.setDecorations(decoration.KeyHint, hints);
+  }
+
   private _renderStatusBar(): void {
     let text: string[] = [];
 
@@ -1484,6 +1623,9 @@ export class ModeHandler implements vscode.Disposable {
   }
 
   dispose() {
+    if (this._normalIdleTimeout !== undefined) {
+      clearTimeout(this._normalIdleTimeout);
+    }
     this._disposables.map(d => d.dispose());
   }
 
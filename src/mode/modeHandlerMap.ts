@@ -1,4 +1,5 @@
 import { ModeHandler } from './modeHandler';
+import { hooks } from '../hooks/hooks';
 
 class ModeHandlerMapImpl {
   modeHandlerMap: { [key: string]: ModeHandler } = {};
@@ -10,6 +11,9 @@ class ModeHandlerMapImpl {
       isNew = true;
       modeHandler = await ModeHandler.Create();
       this.modeHandlerMap[key] = modeHandler;
+
+      const { vimState } = modeHandler;
+      await hooks.run('BufOpen', vimState.editor.document.fileName, vimState);
     }
     return [modeHandler, isNew];
   }
@@ -1,10 +1,11 @@
 import { Logger } from '../util/logger';
 import { Mode, ModeName } from './mode';
 import { Position } from './../common/motion/position';
-import { SearchDirection } from '../state/searchState';
+import { SearchDirection, SearchSelectMode, SelectionOperation } from '../state/searchState';
 import { VSCodeVimCursorType } from './mode';
 import { VimState } from '../state/vimState';
 import { globalState } from '../state/globalState';
+import { commandLine } from '../cmd_line/commandLine';
 
 export enum VisualBlockInsertionType {
   /**
@@ -57,6 +58,12 @@ export class KakInsertMode extends Mode {
   }
 }
 
+export class KakViewMode extends Mode {
+  constructor() {
+    super(ModeName.KakView, '-- KakView --', VSCodeVimCursorType.Block, true);
+  }
+}
+
 export class VisualMode extends Mode {
   constructor() {
     super(ModeName.Visual, '-- Visual --', VSCodeVimCursorType.TextDecoration, true);
@@ -102,8 +109,30 @@ export class SearchInProgressMode extends Mode {
       this._logger.warn(`globalState.searchState is undefined.`);
       return '';
     }
-    const leadingChar =
-      globalState.searchState.searchDirection === SearchDirection.Forward ? '/' : '?';
+    let leadingChar: string;
+    switch (globalState.searchState.selectionOperation) {
+      case SelectionOperation.Select:
+        leadingChar = 'select:';
+        break;
+      case SelectionOperation.Split:
+        leadingChar = 'split:';
+        break;
+      case SelectionOperation.Keep:
+        leadingChar = 'keep matching:';
+        break;
+      case SelectionOperation.Drop:
+        leadingChar = 'keep not matching:';
+        break;
+      default:
+        if (globalState.searchState.selectMode === SearchSelectMode.Extend) {
+          leadingChar = 'extend:';
+        } else if (globalState.searchState.selectMode !== undefined) {
+          leadingChar = 'search:';
+        } else {
+          leadingChar =
+            globalState.searchState.searchDirection === SearchDirection.Forward ? '/' : '?';
+        }
+    }
 
     const cursorChar =
       vimState.recordedState.actionKeys[vimState.recordedState.actionKeys.length - 1] === '<C-r>'
@@ -133,7 +162,9 @@ export class CommandlineInProgress extends Mode {
         : '|';
     stringWithCursor.splice(vimState.statusBarCursorCharacterPos, 0, cursorChar);
 
-    return `:${stringWithCursor.join('')}`;
+    const label = commandLine.prompt !== undefined ? commandLine.prompt.label : ':';
+
+    return `${label}${stringWithCursor.join('')}`;
   }
 
   getStatusBarCommandText(vimState: VimState): string {
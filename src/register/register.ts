@@ -1,3 +1,5 @@
+import * as vscode from 'vscode';
+
 import { Clipboard } from './../util/clipboard';
 import {
   ActionDeleteChar,
@@ -7,6 +9,8 @@ import {
   CommandYankFullLine,
 } from './../actions/commands/actions';
 import { DeleteOperator, YankOperator } from './../actions/operator';
+import { Position } from './../common/motion/position';
+import { Range } from './../common/motion/range';
 import { RecordedState } from './../state/recordedState';
 import { VimState } from './../state/vimState';
 
@@ -31,6 +35,16 @@ export interface IRegisterContent {
   isClipboardRegister: boolean;
 }
 
+/**
+ * Selections saved in a register with `Z`. They only make sense in the file
+ * they were saved in.
+ */
+export interface ISelectionSet {
+  fileName: string;
+  selections: Range[];
+  mainSelectionIndex: number;
+}
+
 export class Register {
   /**
    * The '"' is the unnamed register.
@@ -62,6 +76,11 @@ export class Register {
     '9': { text: '', registerMode: RegisterMode.CharacterWise, isClipboardRegister: false },
   };
 
+  /**
+   * Selection sets, which live alongside the text of the same register.
+   */
+  private static selectionSets: { [key: string]: ISelectionSet } = {};
+
   /**
    * ". readonly register: last content change.
    */
@@ -435,6 +454,84 @@ export class Register {
     }
   }
 
+  /**
+   * Gets every entry of a register, one per selection it was yanked from.
+   * Unlike getByKey(), entries are never joined together.
+   */
+  public static async getEntriesByKey(register: string): Promise<string[]> {
+    if (!Register.isValidRegister(register)) {
+      throw new Error(`Invalid register ${register}`);
+    }
+
+    if (Register.isClipboardRegister(register)) {
+      return [(await Clipboard.Paste()).replace(/\r\n/g, '\n')];
+    }
+
+    const content = Register.registers[register.toLowerCase()];
+    if (!content || content.text instanceof RecordedState) {
+      return [];
+    }
+
+    return typeof content.text === 'string' ? [content.text] : content.text.slice(0);
+  }
+
+  public static putSelectionSet(register: string, selectionSet: ISelectionSet): void {
+    Register.selectionSets[register] = selectionSet;
+  }
+
+  public static getSelectionSet(register: string): ISelectionSet | undefined {
+    return Register.selectionSets[register];
+  }
+
+  /**
+   * Shifts saved selections down when lines were added to a document, like
+   * jumps are shifted.
+   */
+  public static handleTextAdded(
+    document: { fileName: string },
+    range: vscode.Range,
+    text: string
+  ): void {
+    const distance = text.split('').filter(c => c === '\n').length;
+
+    Register.shiftSelectionSets(document, position =>
+      position.line > range.start.line
+        ? new Position(position.line + distance, position.character)
+        : position
+    );
+  }
+
+  /**
+   * Shifts saved selections up when lines were removed from a document, like
+   * jumps are shifted. Selections on the removed lines stay where they were.
+   */
+  public static handleTextDeleted(document: { fileName: string }, range: vscode.Range): void {
+    const distance = range.end.line - range.start.line;
+
+    Register.shiftSelectionSets(document, position =>
+      position.line > range.start.line
+        ? new Position(
+            position.line - Math.min(position.line - range.start.line, distance),
+            position.character
+          )
+        : position
+    );
+  }
+
+  private static shiftSelectionSets(
+    document: { fileName: string },
+    shift: (position: Position) => Position
+  ): void {
+    for (const register of Object.keys(Register.selectionSets)) {
+      const selectionSet = Register.selectionSets[register];
+      if (selectionSet.fileName === document.fileName) {
+        selectionSet.selections = selectionSet.selections.map(
+          ({ start, stop }) => new Range(shift(start), shift(stop))
+        );
+      }
+    }
+  }
+
   public static has(register: string): boolean {
     return Register.registers[register] !== undefined;
   }
@@ -4,6 +4,7 @@ import { ModeName } from '../mode/mode';
 import { Position } from '../common/motion/position';
 import { RecordedState } from './../state/recordedState';
 import { SearchHistory } from '../history/historyFile';
+import { KakRepeatState } from './kakRepeatState';
 import { SearchState, SearchDirection } from './searchState';
 import { SubstituteState } from './substituteState';
 import { configuration } from '../configuration/configuration';
@@ -34,6 +35,11 @@ class GlobalState {
    */
   public previousFullAction: RecordedState | undefined = undefined;
 
+  /**
+   * The last insertion and selection, for `.` and `<a-.>` in KakNormal.
+   */
+  public kakRepeatState = new KakRepeatState();
+
   /**
    * Last substitute state for running :s by itself
    */
@@ -0,0 +1,74 @@
+import { BaseAction } from '../actions/base';
+import { ModeName } from '../mode/mode';
+
+/**
+ * Records what the KakNormal `.` and `<a-.>` commands repeat. Both are kept as
+ * the keys that made them, starting with the KakNormal command and running up
+ * to whatever brings us back to KakNormal, so typed text and prompts are
+ * included.
+ */
+export class KakRepeatState {
+  /**
+   * The last insertion: the command that entered KakInsert and everything typed
+   * until leaving it.
+   */
+  public lastInsertKeys: string[] | undefined = undefined;
+
+  /**
+   * The last object selection or character find.
+   */
+  public lastSelectionKeys: string[] | undefined = undefined;
+
+  /**
+   * The keys recorded so far while we are away from KakNormal.
+   */
+  private pendingKeys: string[] | undefined = undefined;
+
+  /**
+   * The mode the pending recording is in, which it is dropped for leaving
+   * anywhere but KakNormal.
+   */
+  private pendingMode: ModeName | undefined = undefined;
+
+  private pendingIsInsert = false;
+
+  /**
+   * Called after every action, with the modes before and after it.
+   */
+  public record(action: BaseAction, previousMode: ModeName, currentMode: ModeName): void {
+    if (this.pendingKeys !== undefined) {
+      this.pendingKeys.push(...action.keysPressed);
+
+      if (currentMode === ModeName.KakNormal) {
+        this.finishRecording();
+      } else if (currentMode !== this.pendingMode) {
+        this.pendingKeys = undefined;
+      }
+      return;
+    }
+
+    if (previousMode !== ModeName.KakNormal) {
+      return;
+    }
+
+    if (action.isRepeatableSelection || currentMode === ModeName.KakInsert) {
+      this.pendingKeys = [...action.keysPressed];
+      this.pendingMode = currentMode;
+      this.pendingIsInsert = currentMode === ModeName.KakInsert;
+
+      if (currentMode === ModeName.KakNormal) {
+        this.finishRecording();
+      }
+    }
+  }
+
+  private finishRecording(): void {
+    if (this.pendingIsInsert) {
+      this.lastInsertKeys = this.pendingKeys;
+    } else {
+      this.lastSelectionKeys = this.pendingKeys;
+    }
+
+    this.pendingKeys = undefined;
+  }
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 
 import { configuration } from '../configuration/configuration';
 import { Position, PositionDiff } from './../common/motion/position';
+import { Range } from './../common/motion/range';
 import { ModeName } from './../mode/mode';
 import { TextEditor } from './../textEditor';
 import { setFlagsFromString } from 'v8';
@@ -11,6 +12,52 @@ export enum SearchDirection {
   Backward = -1,
 }
 
+/**
+ * What the search prompt does with the selections when it is accepted, instead of
+ * moving to the next match. Used by s, S, <a-k> and <a-K> in KakNormal.
+ */
+export enum SelectionOperation {
+  /**
+   * Select every match inside the selections.
+   */
+  Select,
+
+  /**
+   * Split the selections on every match.
+   */
+  Split,
+
+  /**
+   * Keep the selections that contain a match.
+   */
+  Keep,
+
+  /**
+   * Keep the selections that don't contain a match.
+   */
+  Drop,
+}
+
+/**
+ * How a KakNormal search changes the selections with the matches it finds.
+ */
+export enum SearchSelectMode {
+  /**
+   * Select the match in place of the selection.
+   */
+  Replace,
+
+  /**
+   * Extend the selection up to the match.
+   */
+  Extend,
+
+  /**
+   * Add the match after the main selection as the new main selection.
+   */
+  Append,
+}
+
 /**
  * State involved with beginning a search (/).
  */
@@ -22,6 +69,17 @@ export class SearchState {
   private static notEscapedQuestionMarkRegex: RegExp = /(?<=[^\\])\?/g;
   public previousMode = ModeName.Normal;
 
+  /**
+   * Set when the prompt filters the selections rather than searching the document.
+   */
+  public selectionOperation: SelectionOperation | undefined = undefined;
+
+  /**
+   * Set when the prompt selects the next match, as KakNormal searches do, rather
+   * than moving the cursor to it.
+   */
+  public selectMode: SearchSelectMode | undefined = undefined;
+
   private _matchRanges: vscode.Range[] = [];
 
   /**
@@ -104,6 +162,44 @@ export class SearchState {
     }
   }
 
+  /**
+   * Compiles `search` into a global regex.
+   *
+   * If ignorecase is false, the search is case sensitive.
+   * If ignorecase is true, the search should be case insensitive.
+   * If both ignorecase and smartcase are true, the search is case sensitive only when the search string contains UpperCase character.
+   */
+  private _getRegex(search: string): RegExp {
+    let ignorecase = configuration.ignorecase;
+
+    if (ignorecase && configuration.smartcase && /[A-Z]/.test(search)) {
+      ignorecase = false;
+    }
+
+    let ignorecaseOverride = search.match(SearchState.caseOverrideRegex);
+    let searchRE = search;
+
+    if (ignorecaseOverride) {
+      // Vim strips all \c's but uses the behavior of the first one.
+      searchRE = search.replace(SearchState.caseOverrideRegex, '');
+      ignorecase = ignorecaseOverride[0][1] === 'c';
+    }
+
+    if (!this.isRegex) {
+      searchRE = search.replace(SearchState.specialCharactersRegex, '\\$&');
+    }
+
+    const regexFlags = ignorecase ? 'gim' : 'gm';
+
+    try {
+      return new RegExp(searchRE, regexFlags);
+    } catch (err) {
+      // Couldn't compile the regexp, try again with special characters escaped
+      searchRE = search.replace(SearchState.specialCharactersRegex, '\\$&');
+      return new RegExp(searchRE, regexFlags);
+    }
+  }
+
   private _recalculateSearchRanges({ forceRecalc }: { forceRecalc?: boolean } = {}): void {
     const search = this.needle;
     if (search === '') {
@@ -123,41 +219,8 @@ export class SearchState {
       this._cachedDocumentName = TextEditor.getDocumentName();
       this._matchRanges = [];
 
-      /*
-       * Decide whether the search is case sensitive.
-       * If ignorecase is false, the search is case sensitive.
-       * If ignorecase is true, the search should be case insensitive.
-       * If both ignorecase and smartcase are true, the search is case sensitive only when the search string contains UpperCase character.
-       */
-      let ignorecase = configuration.ignorecase;
-
-      if (ignorecase && configuration.smartcase && /[A-Z]/.test(search)) {
-        ignorecase = false;
-      }
-
-      let ignorecaseOverride = search.match(SearchState.caseOverrideRegex);
-      let searchRE = search;
-
-      if (ignorecaseOverride) {
-        // Vim strips all \c's but uses the behavior of the first one.
-        searchRE = search.replace(SearchState.caseOverrideRegex, '');
-        ignorecase = ignorecaseOverride[0][1] === 'c';
-      }
-
-      if (!this.isRegex) {
-        searchRE = search.replace(SearchState.specialCharactersRegex, '\\$&');
-      }
-
-      const regexFlags = ignorecase ? 'gim' : 'gm';
+      const regex = this._getRegex(search);
 
-      let regex: RegExp;
-      try {
-        regex = new RegExp(searchRE, regexFlags);
-      } catch (err) {
-        // Couldn't compile the regexp, try again with special characters escaped
-        searchRE = search.replace(SearchState.specialCharactersRegex, '\\$&');
-        regex = new RegExp(searchRE, regexFlags);
-      }
       // We store the entire text file as a string inside text, and run the
       // regex against it many times to find all of our matches. In order to
       // transform from the absolute position in the string to a Position
@@ -356,6 +419,158 @@ export class SearchState {
     }
   }
 
+  /**
+   * Every non-empty match inside `range`, in document order. Only the text of `range`
+   * is searched, so `^` and `$` also match at its boundaries.
+   */
+  public getMatchRangesInRange(range: vscode.Range): vscode.Range[] {
+    const matches: vscode.Range[] = [];
+    if (this.needle === '') {
+      return matches;
+    }
+
+    const regex = this._getRegex(this.needle);
+    const text = TextEditor.getText(range);
+    const offset = TextEditor.getOffsetAt(Position.FromVSCodePosition(range.start));
+
+    let result = regex.exec(text);
+    while (result) {
+      if (result[0].length === 0) {
+        regex.lastIndex++;
+      } else {
+        matches.push(
+          new vscode.Range(
+            TextEditor.getPositionAt(offset + result.index),
+            TextEditor.getPositionAt(offset + result.index + result[0].length)
+          )
+        );
+      }
+      result = regex.exec(text);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Applies `selectionOperation` to each of `selections`. Returns an empty list if
+   * nothing would be left selected.
+   */
+  public applySelectionOperation(selections: Range[]): Range[] {
+    const result: Range[] = [];
+
+    for (const selection of selections) {
+      const selected = selection.getSelectedRange();
+      const matches = this.getMatchRangesInRange(selected);
+
+      switch (this.selectionOperation) {
+        case SelectionOperation.Select:
+          result.push(...matches.map(match => Range.FromSelectedRange(match)));
+          break;
+        case SelectionOperation.Split:
+          let start = selected.start;
+          for (const match of matches) {
+            if (match.start.isAfter(start)) {
+              result.push(Range.FromSelectedRange(new vscode.Range(start, match.start)));
+            }
+            start = match.end;
+          }
+          if (selected.end.isAfter(start)) {
+            result.push(Range.FromSelectedRange(new vscode.Range(start, selected.end)));
+          }
+          break;
+        case SelectionOperation.Keep:
+          if (matches.length > 0) {
+            result.push(selection);
+          }
+          break;
+        case SelectionOperation.Drop:
+          if (matches.length === 0) {
+            result.push(selection);
+          }
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Selects the next match in `direction` from each of `selections` the way `mode`
+   * says, `count` times over. Append only searches from the main selection. Returns
+   * undefined if nothing matched, or else the new selections, the index of the main
+   * one and the index of its match.
+   */
+  public selectNextMatches(
+    selections: Range[],
+    mainSelectionIndex: number,
+    mode: SearchSelectMode,
+    direction: SearchDirection,
+    count = 1
+  ): { selections: Range[]; mainSelectionIndex: number; index: number } | undefined {
+    let index = -1;
+
+    for (let i = 0; i < count; i++) {
+      if (mode === SearchSelectMode.Append) {
+        const next = this.selectNextMatch(selections[mainSelectionIndex], mode, direction);
+        if (next === undefined) {
+          return undefined;
+        }
+
+        selections = [...selections, next.range];
+        mainSelectionIndex = selections.length - 1;
+        index = next.index;
+      } else {
+        const matches = selections.map(selection =>
+          this.selectNextMatch(selection, mode, direction)
+        );
+        if (matches.every(match => match === undefined)) {
+          return undefined;
+        }
+
+        // Selections without a match further on stay as they are
+        selections = selections.map((selection, j) => {
+          const match = matches[j];
+          return match !== undefined ? match.range : selection;
+        });
+        const mainMatch = matches[mainSelectionIndex];
+        index = mainMatch !== undefined ? mainMatch.index : index;
+      }
+    }
+
+    return { selections, mainSelectionIndex, index };
+  }
+
+  /**
+   * The selection made by the first match after `selection` in `direction`, which
+   * is the match itself unless `mode` extends the selection to it.
+   */
+  private selectNextMatch(
+    selection: Range,
+    mode: SearchSelectMode,
+    direction: SearchDirection
+  ): { range: Range; index: number } | undefined {
+    const forward = direction === SearchDirection.Forward;
+    const from = forward
+      ? Position.LaterOf(selection.start, selection.stop)
+      : Position.EarlierOf(selection.start, selection.stop);
+
+    const { start, end, match, index } = this.getNextSearchMatchRange(
+      from,
+      direction * this._searchDirection
+    );
+    // Without wrapscan, running out of matches gives back an empty range
+    if (!match || start.isEqual(end)) {
+      return undefined;
+    }
+
+    const last = end.getLeftThroughLineBreaks();
+    if (mode === SearchSelectMode.Extend) {
+      return { range: new Range(selection.anchor, forward ? last : start), index };
+    }
+
+    return { range: forward ? new Range(start, last) : new Range(last, start), index };
+  }
+
   public getSearchMatchRangeOf(
     pos: Position
   ): { start: Position; end: Position; match: boolean; index: number } {
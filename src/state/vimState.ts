@@ -14,6 +14,7 @@ import { RecordedState } from './recordedState';
 import { RegisterMode } from './../register/register';
 import { ReplaceState } from './../state/replaceState';
 import { globalState } from './../state/globalState';
+import { hooks } from '../hooks/hooks';
 
 /**
  * The VimState class holds permanent state that carries over from action
@@ -150,20 +151,58 @@ export class VimState implements vscode.Disposable {
     return this._cursors;
   }
   public set cursors(value: Range[]) {
-    const map = new Map<string, Range>();
-    for (const cursor of value) {
+    // When the number of cursors changes, follow the main selection to its new index
+    let mainIndex = Math.min(this._mainSelectionIndex, value.length - 1);
+    if (value.length !== this._cursors.length && this._cursors.length > 0) {
+      const previousMain = this.mainSelection;
+      const index = value.findIndex(cursor => cursor.equals(previousMain));
+      if (index !== -1) {
+        mainIndex = index;
+      }
+    }
+
+    // Ensure no two cursors are at the same location, keeping the first of each
+    const indices = new Map<string, number>();
+    const cursors: Range[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const cursor = value[i];
       if (!cursor.isValid(this.editor)) {
         this.logger.warn(`invalid cursor position. ${cursor.toString()}.`);
       }
 
-      // use a map to ensure no two cursors are at the same location.
-      map.set(cursor.toString(), cursor);
+      const key = cursor.toString();
+      if (!indices.has(key)) {
+        indices.set(key, cursors.length);
+        cursors.push(cursor);
+      }
+
+      if (i === mainIndex) {
+        this._mainSelectionIndex = indices.get(key)!;
+      }
     }
 
-    this._cursors = Array.from(map.values());
+    this._cursors = cursors;
     this.isMultiCursor = this._cursors.length > 1;
   }
 
+  /**
+   * Index into `cursors` of the main selection, which Kakoune rotates with ( and ).
+   * Setting it wraps around the number of cursors.
+   */
+  private _mainSelectionIndex = 0;
+
+  public get mainSelectionIndex(): number {
+    return Math.max(0, Math.min(this._mainSelectionIndex, this._cursors.length - 1));
+  }
+  public set mainSelectionIndex(value: number) {
+    const count = Math.max(this._cursors.length, 1);
+    this._mainSelectionIndex = ((value % count) + count) % count;
+  }
+
+  public get mainSelection(): Range {
+    return this._cursors[this.mainSelectionIndex];
+  }
+
   /**
    * Initial state of cursors prior to any action being performed
    */
@@ -207,8 +246,13 @@ export class VimState implements vscode.Disposable {
 
   private _inputMethodSwitcher: InputMethodSwitcher;
   public async setCurrentMode(value: ModeName): Promise<void> {
-    await this._inputMethodSwitcher.switchInputMethod(this._currentMode, value);
+    const previousMode = this._currentMode;
+    await this._inputMethodSwitcher.switchInputMethod(previousMode, value);
     this._currentMode = value;
+
+    if (previousMode !== value) {
+      await hooks.run('ModeChange', `${ModeName[previousMode]}:${ModeName[value]}`, this);
+    }
   }
 
   public currentRegisterMode = RegisterMode.AscertainFromCurrentMode;
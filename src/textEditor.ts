@@ -228,6 +228,44 @@ export class TextEditor {
     return indentString + line.substring(firstNonWhiteSpace, line.length);
   }
 
+  /**
+   * Gets the screen column of a position, where a tab reaches the next multiple
+   * of the tab size.
+   */
+  static getDisplayColumn(
+    position: vscode.Position,
+    tabSize: number = configuration.tabstop
+  ): number {
+    let displayColumn = 0;
+    for (const char of TextEditor.getLineAt(position).text.substring(0, position.character)) {
+      displayColumn =
+        char === '\t' ? displayColumn + tabSize - (displayColumn % tabSize) : displayColumn + 1;
+    }
+
+    return displayColumn;
+  }
+
+  /**
+   * Gets the position on `line` of the character covering screen column
+   * `displayColumn`, or undefined if the line ends before it.
+   */
+  static getPositionAtDisplayColumn(
+    line: number,
+    displayColumn: number,
+    tabSize: number = configuration.tabstop
+  ): Position | undefined {
+    const text = TextEditor.getLineAt(new Position(line, 0)).text;
+    let column = 0;
+    for (let character = 0; character < text.length; character++) {
+      column = text[character] === '\t' ? column + tabSize - (column % tabSize) : column + 1;
+      if (column > displayColumn) {
+        return new Position(line, character);
+      }
+    }
+
+    return column === displayColumn ? new Position(line, text.length) : undefined;
+  }
+
   static getPositionAt(offset: number): Position {
     const pos = vscode.window.activeTextEditor!.document.positionAt(offset);
     return Position.FromVSCodePosition(pos);
@@ -200,6 +200,14 @@ export interface Dot {
   type: 'dot';
 }
 
+/**
+ * Represents pressing '.' or '<a-.>' in KakNormal
+ */
+export interface KakRepeat {
+  type: 'kakRepeat';
+  repeat: 'insert' | 'selection';
+}
+
 /**
  * Represents Tab
  */
@@ -254,6 +262,7 @@ export type Transformation =
   | ShowCommandHistory
   | ShowSearchHistory
   | Dot
+  | KakRepeat
   | Macro
   | ContentChangeTransformation
   | DeleteTextTransformation
@@ -66,6 +66,41 @@ export function executeShell(cmd: string): Promise<string> {
   });
 }
 
+export interface IShellFilterResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * This function executes a shell command with `input` on its standard input and
+ * returns its exit code and output. It only rejects if the command could not be run.
+ */
+export function executeShellFilter(
+  cmd: string,
+  input: string,
+  env: { [name: string]: string }
+): Promise<IShellFilterResult> {
+  return new Promise<IShellFilterResult>((resolve, reject) => {
+    try {
+      const child = exec(cmd, { env: { ...process.env, ...env } }, (err, stdout, stderr) => {
+        if (err && typeof err.code !== 'number') {
+          reject(err);
+        } else {
+          resolve({ exitCode: err ? err.code! : 0, stdout, stderr });
+        }
+      });
+
+      child.stdin!.on('error', () => {
+        // The command is free to exit without reading its input
+      });
+      child.stdin!.end(input);
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
 export function clamp(num: number, min: number, max: number) {
   return Math.min(Math.max(num, min), max);
 }
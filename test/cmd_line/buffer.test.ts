@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+
+import { getAndUpdateModeHandler } from '../../extension';
+import { commandLine } from '../../src/cmd_line/commandLine';
+import { getBufferName, isFuzzyMatch } from '../../src/cmd_line/commands/buffer';
+import { ModeHandler } from '../../src/mode/modeHandler';
+import { globalState } from '../../src/state/globalState';
+import { StatusBar } from '../../src/statusBar';
+import { createRandomFile, setupWorkspace, cleanUpWorkspace } from '../testUtils';
+
+suite('cmd_line buffer', () => {
+  let modeHandler: ModeHandler;
+  let first: vscode.TextDocument;
+  let second: vscode.TextDocument;
+
+  setup(async () => {
+    await setupWorkspace();
+    first = vscode.window.activeTextEditor!.document;
+    second = await vscode.workspace.openTextDocument(await createRandomFile('', ''));
+    await vscode.window.showTextDocument(second);
+    modeHandler = await getAndUpdateModeHandler();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  test('isFuzzyMatch matches characters in order', () => {
+    assert.strictEqual(isFuzzyMatch('sbt', 'src/buffer.ts'), true);
+    assert.strictEqual(isFuzzyMatch('SRC', 'src/buffer.ts'), true);
+    assert.strictEqual(isFuzzyMatch('tbs', 'src/buffer.ts'), false);
+  });
+
+  test('b switches to a buffer by name and records a jump', async () => {
+    const jumps = globalState.jumpTracker.jumps.length;
+    await commandLine.Run(`b ${getBufferName(first)}`, modeHandler.vimState);
+
+    assert.strictEqual(vscode.window.activeTextEditor!.document, first);
+    assert.strictEqual(globalState.jumpTracker.jumps.length, jumps + 1);
+  });
+
+  test('bp and bn cycle through the buffers', async () => {
+    await commandLine.Run('bp', modeHandler.vimState);
+    assert.notStrictEqual(vscode.window.activeTextEditor!.document, second);
+
+    modeHandler = await getAndUpdateModeHandler();
+    await commandLine.Run('bn', modeHandler.vimState);
+    assert.strictEqual(vscode.window.activeTextEditor!.document, second);
+  });
+
+  test('db refuses to delete a buffer with unsaved changes', async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', '<Esc>']);
+    await commandLine.Run('db', modeHandler.vimState);
+
+    assert.strictEqual(vscode.window.activeTextEditor!.document, second);
+    assert.strictEqual(
+      StatusBar.Get(),
+      'E89: No write since last change for buffer (add ! to override). db'
+    );
+  });
+
+  test('db! discards unsaved changes', async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', '<Esc>']);
+    await commandLine.Run('db!', modeHandler.vimState);
+
+    assert.notStrictEqual(vscode.window.activeTextEditor!.document, second);
+  });
+});
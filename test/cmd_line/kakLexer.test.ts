@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+
+import { ErrorCode, VimError } from '../../src/error';
+import * as kakLexer from '../../src/cmd_line/kakLexer';
+
+suite('Kakoune command lexer', () => {
+  const words = (input: string) =>
+    kakLexer.lex(input).map(command => command.map(({ parts }) => parts));
+
+  test('can lex commands separated by semicolons and newlines', () => {
+    assert.deepEqual(words('earlier 2; later\nnohl'), [
+      [['earlier'], ['2']],
+      [['later']],
+      [['nohl']],
+    ]);
+  });
+
+  test('can lex an escaped semicolon', () => {
+    assert.deepEqual(words('echo a\\;b'), [[['echo'], ['a;b']]]);
+  });
+
+  test('can lex quoted words', () => {
+    assert.deepEqual(words(`echo 'a b' "c \\"d\\"" %{e {f}}`), [
+      [['echo'], ['a b'], ['c "d"'], ['e {f}']],
+    ]);
+  });
+
+  test('can lex expansions', () => {
+    assert.deepEqual(words('echo %val{selection} "line %val{cursor_line}" %sh(date)'), [
+      [
+        ['echo'],
+        [{ type: 'val', content: 'selection' }],
+        ['line ', { type: 'val', content: 'cursor_line' }],
+        [{ type: 'sh', content: 'date' }],
+      ],
+    ]);
+  });
+
+  test('can lex a percent that starts no expansion', () => {
+    assert.deepEqual(words('echo 50% "100%"'), [[['echo'], ['50%'], ['100%']]]);
+  });
+
+  test('can skip comments', () => {
+    assert.deepEqual(words('# comment\nlater # again'), [[['later']]]);
+  });
+
+  test('throws on a missing quote', () => {
+    assert.throws(() => kakLexer.lex('echo "a'), (e: VimError) => e.code === ErrorCode.E114);
+  });
+
+  test('throws on an unknown expansion', () => {
+    assert.throws(() => kakLexer.lex('echo %foo{a}'), (e: VimError) => e.code === ErrorCode.E474);
+  });
+});
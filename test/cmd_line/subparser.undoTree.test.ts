@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+
+import { commandParsers } from '../../src/cmd_line/subparser';
+import { TimeTravelDirection } from '../../src/cmd_line/commands/undoTree';
+
+suite(':earlier and :later args parser', () => {
+  test('has :ea and :lat aliases', () => {
+    assert.strictEqual(commandParsers.earlier.abbrev, 'ea');
+    assert.strictEqual(commandParsers.later.abbrev, 'lat');
+  });
+
+  test('can parse empty args', () => {
+    const cmd = commandParsers.earlier.parser('');
+    assert.strictEqual(cmd.arguments.direction, TimeTravelDirection.Earlier);
+    assert.strictEqual(cmd.arguments.count, 1);
+    assert.strictEqual(cmd.arguments.isTime, false);
+  });
+
+  test('can parse a count', () => {
+    const cmd = commandParsers.later.parser(' 10 ');
+    assert.strictEqual(cmd.arguments.direction, TimeTravelDirection.Later);
+    assert.strictEqual(cmd.arguments.count, 10);
+    assert.strictEqual(cmd.arguments.isTime, false);
+  });
+
+  test('can parse a duration', () => {
+    const durations: Array<[string, number]> = [
+      ['5s', 5],
+      ['2m', 120],
+      ['1h', 3600],
+      ['1d', 86400],
+    ];
+    for (const [args, seconds] of durations) {
+      const cmd = commandParsers.earlier.parser(args);
+      assert.strictEqual(cmd.arguments.count, seconds);
+      assert.strictEqual(cmd.arguments.isTime, true);
+    }
+  });
+
+  test('fails on invalid args', () => {
+    for (const args of ['x', '5x', '5ss', 's', '5 s']) {
+      assert.throws(() => commandParsers.earlier.parser(args));
+    }
+  });
+});
@@ -1,6 +1,9 @@
 import * as assert from 'assert';
+import * as vscode from 'vscode';
 import { join, sep, basename } from 'path';
 import { getAndUpdateModeHandler } from '../../extension';
+import { getBufferName } from '../../src/cmd_line/commands/buffer';
+import { userCommands } from '../../src/cmd_line/subparser';
 import { ModeHandler } from '../../src/mode/modeHandler';
 import { StatusBar } from '../../src/statusBar';
 import * as t from '../testUtils';
@@ -42,6 +45,43 @@ suite('cmd_line tabComplete', () => {
     assert.strictEqual(actual, firstTab, "Command can't go back with shift+tab");
   });
 
+  test('command line user command tab completion', async () => {
+    userCommands.set('greet-someone', {
+      name: 'greet-someone',
+      commands: '',
+      minParams: 1,
+      maxParams: 1,
+      docstring: '',
+      completion: ['world', 'everyone'],
+    });
+
+    try {
+      await modeHandler.handleMultipleKeyEvents(':greet-'.split(''));
+      await modeHandler.handleKeyEvent('<tab>');
+      const statusBarAfterNameTab = StatusBar.Get().trim();
+
+      await modeHandler.handleMultipleKeyEvents([' ', 'w', '<tab>']);
+      const statusBarAfterParamTab = StatusBar.Get().trim();
+
+      await modeHandler.handleKeyEvent('<Esc>');
+      assert.strictEqual(statusBarAfterNameTab, ':greet-someone|');
+      assert.strictEqual(statusBarAfterParamTab, ':greet-someone world|');
+    } finally {
+      userCommands.delete('greet-someone');
+    }
+  });
+
+  test('command line buffer fuzzy tab completion', async () => {
+    const name = getBufferName(vscode.window.activeTextEditor!.document);
+
+    await modeHandler.handleMultipleKeyEvents([':', 'b', ' ', ...basename(name).split('')]);
+    await modeHandler.handleKeyEvent('<tab>');
+    const statusBarAfterTab = StatusBar.Get().trim();
+
+    await modeHandler.handleKeyEvent('<Esc>');
+    assert.strictEqual(statusBarAfterTab, `:b ${name}|`, 'Buffer Tab Completion Failed');
+  });
+
   test('command line file tab completion with no base path', async () => {
     await modeHandler.handleKeyEvent(':');
     const statusBarBeforeTab = StatusBar.Get();
@@ -19,8 +19,22 @@ suite('Notation', () => {
       LEaDer: '//',
       '<cR>': '\n',
       '<EnTeR>': '\n',
+      '<ret>': '\n',
+      '<lt>': '<',
+      '<gt>': '>',
       '<space>': ' ',
       '<uP>': '<up>',
+      'alt+x': '<a-x>',
+      '<AlT+y>': '<a-y>',
+      '<A-z>': '<a-z>',
+      '<M-h>': '<a-h>',
+      '<a-K>': '<a-K>',
+      'alt+shift+k': '<a-K>',
+      'alt+shift+9': '<a-(>',
+      'alt+shift+.': '<a-gt>',
+      '<a-<>': '<a-lt>',
+      'alt+space': '<a-space>',
+      '<a-;>': '<a-;>',
     };
 
     for (const test in testCases) {
@@ -32,4 +46,9 @@ suite('Notation', () => {
       }
     }
   });
+
+  test('ParseKeySequence', () => {
+    assert.deepEqual(Notation.ParseKeySequence('x<a-d><esc>', '//'), ['x', '<a-d>', '<Esc>']);
+    assert.deepEqual(Notation.ParseKeySequence('<lt>a<<space>', '//'), ['<', 'a', '<', ' ']);
+  });
 });
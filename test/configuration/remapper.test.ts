@@ -5,7 +5,7 @@ import { Remappers, Remapper } from '../../src/configuration/remapper';
 import { ModeName } from '../../src/mode/mode';
 import { ModeHandler } from '../../src/mode/modeHandler';
 import { Configuration } from '../testConfiguration';
-import { assertEqual, setupWorkspace, cleanUpWorkspace } from '../testUtils';
+import { assertEqual, assertEqualLines, setupWorkspace, cleanUpWorkspace } from '../testUtils';
 import { IKeyRemapping } from '../../src/configuration/iconfiguration';
 import { IRegisterContent, Register } from '../../src/register/register';
 import { getAndUpdateModeHandler } from '../../extension';
@@ -95,16 +95,22 @@ suite('Remapper', () => {
     insertModeKeyBindings,
     normalModeKeyBindings,
     visualModeKeyBindings,
+    kakNormalModeKeyBindings,
+    kakInsertModeKeyBindings,
   }: {
     insertModeKeyBindings?: IKeyRemapping[];
     normalModeKeyBindings?: IKeyRemapping[];
     visualModeKeyBindings?: IKeyRemapping[];
+    kakNormalModeKeyBindings?: IKeyRemapping[];
+    kakInsertModeKeyBindings?: IKeyRemapping[];
   }) => {
     const configuration = new Configuration();
     configuration.leader = leaderKey;
     configuration.insertModeKeyBindings = insertModeKeyBindings || [];
     configuration.normalModeKeyBindings = normalModeKeyBindings || [];
     configuration.visualModeKeyBindings = visualModeKeyBindings || [];
+    configuration.kakNormalModeKeyBindings = kakNormalModeKeyBindings || [];
+    configuration.kakInsertModeKeyBindings = kakInsertModeKeyBindings || [];
 
     await setupWorkspace(configuration);
     modeHandler = await getAndUpdateModeHandler();
@@ -467,6 +473,46 @@ suite('Remapper', () => {
     // assert
     assert.strictEqual(modeHandler.currentMode.name, ModeName.Normal);
   });
+
+  test('jj -> <Esc> in KakInsert mode through modehandler', async () => {
+    // setup
+    await setupWithBindings({
+      kakInsertModeKeyBindings: [
+        {
+          before: ['j', 'j'],
+          after: ['<Esc>'],
+        },
+      ],
+    });
+
+    assert.strictEqual(modeHandler.currentMode.name, ModeName.KakNormal);
+
+    // act
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', 'j', 'j']);
+
+    // assert
+    assert.strictEqual(modeHandler.currentMode.name, ModeName.KakNormal);
+    assertEqualLines(['a']);
+  });
+
+  test('<M-i> -> i b <Esc> in KakNormal mode through modehandler', async () => {
+    // setup
+    await setupWithBindings({
+      kakNormalModeKeyBindings: [
+        {
+          before: ['<M-i>'],
+          after: ['i', 'b', '<Esc>'],
+        },
+      ],
+    });
+
+    // act
+    await modeHandler.handleMultipleKeyEvents(['<a-i>']);
+
+    // assert
+    assert.strictEqual(modeHandler.currentMode.name, ModeName.KakNormal);
+    assertEqualLines(['b']);
+  });
 });
 
 /* tslint:enable:no-string-literal */
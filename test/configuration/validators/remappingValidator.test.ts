@@ -69,6 +69,35 @@ suite('Remapping Validator', () => {
     );
   });
 
+  test('kakInsert jj->esc', async () => {
+    // setup
+    const configuration = new Configuration();
+    configuration.kakInsertModeKeyBindings = [
+      {
+        before: ['j', 'j'],
+        after: ['<Esc>'],
+      },
+    ];
+
+    // test
+    const validator = new RemappingValidator();
+    const actual = await validator.validate(configuration);
+
+    // assert
+    assert.strictEqual(actual.numErrors, 0);
+    assert.strictEqual(actual.numWarnings, 0);
+
+    assert.strictEqual(configuration.insertModeKeyBindingsMap.size, 0);
+    assert.strictEqual(configuration.kakNormalModeKeyBindingsMap.size, 0);
+    assert.strictEqual(configuration.kakInsertModeKeyBindingsMap.size, 1);
+    assert.strictEqual(configuration.kakInsertModeKeyBindingsNonRecursiveMap.size, 0);
+
+    assert.strictEqual(
+      configuration.kakInsertModeKeyBindingsMap.get('jj'),
+      configuration.kakInsertModeKeyBindings[0]
+    );
+  });
+
   test('remapping missing after and command', async () => {
     // setup
     const configuration = new Configuration();
@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as vscode from 'vscode';
+
+import { getAndUpdateModeHandler } from '../../extension';
+import { ISerializedHistory, UndoFile } from '../../src/history/undoFile';
+import { ModeHandlerMap } from '../../src/mode/modeHandlerMap';
+import { Configuration } from '../testConfiguration';
+import { assertEqualLines, cleanUpWorkspace, rndName, setupWorkspace } from '../testUtils';
+
+suite('UndoFile', () => {
+  let undoFile: UndoFile;
+  const tmpDir = os.tmpdir();
+
+  const history: ISerializedHistory = {
+    steps: [
+      {
+        changes: [{ start: { line: 0, character: 0 }, text: 'one', isAdd: true }],
+        cursorStart: [{ line: 0, character: 0 }],
+        cursorEnd: [{ line: 0, character: 0 }],
+        marks: [],
+        parent: undefined,
+        redoChild: 1,
+        timestamp: 0,
+      },
+      {
+        changes: [{ start: { line: 0, character: 3 }, text: ' two', isAdd: true }],
+        cursorStart: [{ line: 0, character: 3 }],
+        cursorEnd: [{ line: 0, character: 6 }],
+        marks: [{ name: 'a', position: { line: 0, character: 1 }, isUppercaseMark: false }],
+        parent: 0,
+        redoChild: undefined,
+        timestamp: 1000,
+      },
+    ],
+    currentStepIndex: 1,
+    changelistIndex: 1,
+  };
+
+  setup(async () => {
+    const configuration = new Configuration();
+    configuration.undofileMaxSize = 1;
+    await setupWorkspace(configuration);
+
+    undoFile = new UndoFile(rndName(), tmpDir);
+  });
+
+  teardown(async () => {
+    await cleanUpWorkspace();
+    undoFile.clear();
+  });
+
+  test('load without an undo file', async () => {
+    assert.strictEqual(await undoFile.load('one two'), undefined);
+  });
+
+  test('load what was saved for the same text', async () => {
+    await undoFile.save('one two', history);
+    // Unset fields are left out of the file
+    assert.deepStrictEqual(await undoFile.load('one two'), JSON.parse(JSON.stringify(history)));
+  });
+
+  test('ignore what was saved for another text', async () => {
+    await undoFile.save('one two', history);
+    assert.strictEqual(await undoFile.load('one two three'), undefined);
+  });
+
+  test('does not save more than undofileMaxSize', async () => {
+    const bigHistory: ISerializedHistory = {
+      ...history,
+      steps: [
+        {
+          ...history.steps[0],
+          changes: [{ start: { line: 0, character: 0 }, text: 'x'.repeat(2048), isAdd: true }],
+        },
+      ],
+    };
+
+    await undoFile.save('one two', history);
+    await undoFile.save('one two', bigHistory);
+    assert.strictEqual(await undoFile.load('one two'), undefined);
+  });
+});
+
+suite('HistoryTracker undo file', () => {
+  setup(async () => {
+    const configuration = new Configuration();
+    configuration.undofile = true;
+    await setupWorkspace(configuration);
+  });
+
+  teardown(cleanUpWorkspace);
+
+  test('undo and redo through the history restored on reopen', async () => {
+    let modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents(['i', 'o', 'n', 'e', '<Esc>']);
+    await modeHandler.handleMultipleKeyEvents(['o', 't', 'w', 'o', '<Esc>']);
+
+    const document = modeHandler.vimState.editor.document;
+    await document.save();
+    await modeHandler.vimState.historyTracker.saveUndoFile();
+
+    await cleanUpWorkspace();
+    ModeHandlerMap.clear();
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(document.uri));
+
+    modeHandler = await getAndUpdateModeHandler();
+    assertEqualLines(['one', 'two']);
+
+    await modeHandler.handleKeyEvent('u');
+    assertEqualLines(['one']);
+    await modeHandler.handleKeyEvent('u');
+    assertEqualLines(['']);
+    await modeHandler.handleKeyEvent('U');
+    assertEqualLines(['one']);
+
+    new UndoFile(document.fileName).clear();
+  });
+
+  test('undo edits made outside of Vim right before saving', async () => {
+    let modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents(['i', 'o', 'n', 'e', '<Esc>']);
+    await modeHandler.vimState.editor.edit(builder =>
+      builder.insert(new vscode.Position(0, 3), '!')
+    );
+
+    const document = modeHandler.vimState.editor.document;
+    await document.save();
+    await modeHandler.vimState.historyTracker.saveUndoFile();
+
+    await cleanUpWorkspace();
+    ModeHandlerMap.clear();
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(document.uri));
+
+    modeHandler = await getAndUpdateModeHandler();
+    assertEqualLines(['one!']);
+
+    await modeHandler.handleKeyEvent('u');
+    assertEqualLines(['one']);
+    await modeHandler.handleKeyEvent('u');
+    assertEqualLines(['']);
+
+    new UndoFile(document.fileName).clear();
+  });
+});
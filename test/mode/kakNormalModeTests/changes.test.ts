@@ -0,0 +1,216 @@
+import * as assert from 'assert';
+
+import { getAndUpdateModeHandler } from '../../../extension';
+import { ModeName } from '../../../src/mode/mode';
+import { Register } from '../../../src/register/register';
+import { getTestingFunctions } from '../../testSimplifier';
+import { assertEqualLines, cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal changes', () => {
+  const { newTest, newTestOnly, newTestSkip } = getTestingFunctions();
+
+  setup(async () => {
+    await setupWorkspace();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  newTest({
+    title: "Can handle 'd' to delete the selection",
+    start: ['one |two three'],
+    keysPressed: 'wd',
+    end: ['one |three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  test("Can handle 'd' and '<a-d>' yanking or not", async () => {
+    const modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('ione two three'.split(''));
+    await modeHandler.handleMultipleKeyEvents(['<Esc>', '%', 'S', ' ', '\n', 'd']);
+
+    assertEqualLines(['  ']);
+    assert.deepStrictEqual((await Register.getByKey('"', modeHandler.vimState)).text, [
+      'one',
+      'two',
+      'three',
+    ]);
+
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-d>']);
+
+    assertEqualLines(['']);
+    assert.deepStrictEqual((await Register.getByKey('"', modeHandler.vimState)).text, [
+      'one',
+      'two',
+      'three',
+    ]);
+  });
+
+  newTest({
+    title: "Can handle 'c' to change the selection",
+    start: ['one |two three'],
+    keysPressed: 'wcx <Esc>',
+    end: ['one x |three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-c>' to change the selection",
+    start: ['one |two three'],
+    keysPressed: 'w<a-c>x <Esc>',
+    end: ['one x |three'],
+  });
+
+  newTest({
+    title: "Can handle 'a' to insert after the selection",
+    start: ['|one two'],
+    keysPressed: 'wa-<Esc>',
+    end: ['one -|two'],
+  });
+
+  newTest({
+    title: "Can handle 'I' to insert at line begin",
+    start: ['  one |two'],
+    keysPressed: 'I-<Esc>',
+    end: ['-|  one two'],
+  });
+
+  newTest({
+    title: "Can handle 'A' to insert at line end",
+    start: ['one |two'],
+    keysPressed: 'A-<Esc>',
+    end: ['one two-|'],
+  });
+
+  newTest({
+    title: "Can handle 'A' on every selection",
+    start: ['|one', 'two'],
+    keysPressed: '%<a-s>A;<Esc>',
+    end: ['one;|', 'two;'],
+  });
+
+  newTest({
+    title: "Can handle 'o' to open a line below",
+    start: ['|one', 'two'],
+    keysPressed: 'ofoo<Esc>',
+    end: ['one', 'foo|', 'two'],
+  });
+
+  newTest({
+    title: "Can handle 'o' with a count",
+    start: ['|one'],
+    keysPressed: '2o-<Esc>',
+    end: ['one', '-|', '-'],
+  });
+
+  newTest({
+    title: "Can handle 'O' to open a line above",
+    start: ['one', '|two'],
+    keysPressed: 'O-<Esc>',
+    end: ['one', '-|', 'two'],
+  });
+
+  newTest({
+    title: "Can handle '&' to align the selections",
+    start: ['|a b', 'ccc d'],
+    keysPressed: '%s[bd]\n&i-<Esc>',
+    end: ['a   -|b', 'ccc -d'],
+  });
+
+  newTest({
+    title: "Can handle '&' with several selections on a line",
+    start: ['|a b c', 'aaa b c'],
+    keysPressed: '%s[bc]\n&i-<Esc>',
+    end: ['a   -|b -c', 'aaa -b -c'],
+  });
+
+  newTest({
+    title: "Can handle '<a-&>' with a count to copy the indentation",
+    start: ['|  one', 'two', '', '    three'],
+    keysPressed: '%<a-s>1<a-&>gg',
+    end: ['|  one', '  two', '', '  three'],
+  });
+
+  newTest({
+    title: "Can handle '@' to turn tabs into spaces",
+    start: ['|\tone'],
+    keysPressed: '%@gg',
+    end: ['|  one'],
+  });
+
+  newTest({
+    title: "Can handle '@' with a count as the tab size",
+    start: ['|a\tb'],
+    keysPressed: '%4@gg',
+    end: ['|a   b'],
+  });
+
+  newTest({
+    title: "Can handle '<a-@>' to turn spaces into tabs",
+    start: ['|    one  two'],
+    keysPressed: '%<a-@>gg',
+    end: ['|\t\tone\t two'],
+  });
+
+  newTest({
+    title: "Can handle '~' to raise the case of the selections",
+    start: ['|one two one'],
+    keysPressed: '%sone\n~',
+    end: ['|ONE two ONE'],
+  });
+
+  newTest({
+    title: "Can handle '`' to lower the case of the selections",
+    start: ['|ONE TWO'],
+    keysPressed: '%sTWO\n`',
+    end: ['ONE |two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-`>' to swap the case of the selections",
+    start: ['|One two'],
+    keysPressed: '%<a-`>gg',
+    end: ['|oNE TWO'],
+  });
+
+  newTest({
+    title: "Can handle '>' to indent the lines of the selections",
+    start: ['|one', '', 'two'],
+    keysPressed: '%>gg',
+    end: ['|  one', '', '  two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-gt>' to indent empty lines too",
+    start: ['|one', '', 'two'],
+    keysPressed: '%<a-gt>gg',
+    end: ['|  one', '  ', '  two'],
+  });
+
+  newTest({
+    title: "Can handle '<' to deindent the lines of the selections",
+    start: ['|   one', ' two'],
+    keysPressed: '%<gg',
+    end: ['| one', 'two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-lt>' to leave incomplete indentation alone",
+    start: ['|   one', ' two'],
+    keysPressed: '%<a-lt>gg',
+    end: ['| one', ' two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-j>' to join the lines of the selections",
+    start: ['|one', '  two', 'three'],
+    keysPressed: '%<a-j>gg',
+    end: ['|one two three'],
+  });
+
+  newTest({
+    title: "Can handle '<a-J>' to join lines and select the spaces",
+    start: ['|one', '  two'],
+    keysPressed: '<a-J>i-<Esc>',
+    end: ['one-| two'],
+  });
+});
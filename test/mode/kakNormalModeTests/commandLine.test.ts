@@ -0,0 +1,213 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { getAndUpdateModeHandler } from '../../../extension';
+import { SourceCommand } from '../../../src/cmd_line/commands/source';
+import { WriteCommand } from '../../../src/cmd_line/commands/write';
+import { expandWords } from '../../../src/cmd_line/kakExpansions';
+import * as kakLexer from '../../../src/cmd_line/kakLexer';
+import { configuration } from '../../../src/configuration/configuration';
+import { ModeHandler } from '../../../src/mode/modeHandler';
+import { ModeHandlerMap } from '../../../src/mode/modeHandlerMap';
+import { Register } from '../../../src/register/register';
+import { StatusBar } from '../../../src/statusBar';
+import {
+  assertEqualLines,
+  cleanUpWorkspace,
+  createRandomFile,
+  setupWorkspace,
+  waitForCondition,
+} from '../../testUtils';
+
+suite('Mode KakNormal command line', () => {
+  let modeHandler: ModeHandler;
+
+  setup(async () => {
+    await setupWorkspace();
+    modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('iabc\ndef'.split(''));
+    await modeHandler.handleKeyEvent('<Esc>');
+  });
+
+  teardown(cleanUpWorkspace);
+
+  const expand = (input: string) => expandWords(kakLexer.lex(input)[0], modeHandler.vimState);
+
+  test('Can expand values of the main selection', async () => {
+    assert.deepEqual(await expand('%val{cursor_line} "line %val{cursor_line}"'), ['2', 'line 2']);
+  });
+
+  test('Can expand a list of values into several words', async () => {
+    await modeHandler.handleMultipleKeyEvents(['%', 's', '\\', 'w', '+', '\n']);
+    assert.deepEqual(await expand('%val{selections}'), ['abc', 'def']);
+    assert.deepEqual(await expand('"%val{selections}"'), ['abc def']);
+  });
+
+  test('Can expand registers and options', async () => {
+    Register.putByKey('text', 'a');
+    assert.deepEqual(await expand('%reg{a} %opt{tabstop}'), ['text', '2']);
+  });
+
+  test('Can expand the output of a shell command', async () => {
+    assert.deepEqual(await expand('%sh{echo "$kak_cursor_line"}'), ['2']);
+  });
+
+  test('Can run several commands separated by semicolons', async () => {
+    await modeHandler.handleMultipleKeyEvents(['o', 'g', 'h', 'i', '<Esc>']);
+    await modeHandler.handleMultipleKeyEvents([
+      ':',
+      ...'earlier 1; later 1; earlier'.split(''),
+      '\n',
+    ]);
+    assertEqualLines(['abc', 'def']);
+  });
+
+  const runCommand = (command: string) =>
+    modeHandler.handleMultipleKeyEvents([':', ...command.split(''), '\n']);
+
+  test('Can run Ex commands starting with a line range', async () => {
+    await runCommand('%s/[ad]/x');
+    assertEqualLines(['xbc', 'xef']);
+
+    await runCommand('1d');
+    assertEqualLines(['xef']);
+  });
+
+  test('Can edit a file whose quoted name holds whitespace', async () => {
+    const file = path.join(os.tmpdir(), 'kak edit test.txt');
+    fs.writeFileSync(file, '');
+
+    await runCommand(`edit '${file}'`);
+    fs.unlinkSync(file);
+
+    assert.strictEqual(vscode.window.activeTextEditor!.document.fileName, file);
+  });
+
+  test('Can start the command line with a line range from a count', async () => {
+    await modeHandler.handleMultipleKeyEvents(['g', 'g', '2', ':']);
+    assert.strictEqual(modeHandler.vimState.currentCommandlineText, '.,.+1');
+
+    await modeHandler.handleMultipleKeyEvents(['d', '\n']);
+    assertEqualLines(['']);
+  });
+
+  test('Can map keys in normal mode', async () => {
+    await runCommand("map global normal q '%~'");
+    await modeHandler.handleKeyEvent('q');
+    assertEqualLines(['ABC', 'DEF']);
+
+    await runCommand('unmap global normal q');
+    assert.strictEqual(configuration.kakNormalModeKeyBindingsNonRecursiveMap.has('q'), false);
+  });
+
+  test('Can set options to values of their type', async () => {
+    await runCommand('set-option global tabstop 8');
+    assert.strictEqual(configuration.tabstop, 8);
+
+    await runCommand('set-option global tabstop eight');
+    assert.strictEqual(configuration.tabstop, 8);
+  });
+
+  test('Can source a file of commands and report where they fail', async () => {
+    const file = path.join(os.tmpdir(), 'kakrc-source-test');
+    fs.writeFileSync(
+      file,
+      '# settings\nset-option global tabstop %{\n4}\n\nset-option nooption 1\n'
+    );
+
+    await new SourceCommand({ file }).execute(modeHandler.vimState);
+    fs.unlinkSync(file);
+
+    assert.strictEqual(configuration.tabstop, 4);
+    assert.strictEqual(StatusBar.Get(), `${file}:5: E518: Unknown option`);
+  });
+
+  test('Can source a file with several failing commands and report all of them', async () => {
+    const file = path.join(os.tmpdir(), 'kakrc-source-errors-test');
+    fs.writeFileSync(file, 'set-option nooption 1\nset-option global tabstop 4\nnocommand\n');
+
+    await new SourceCommand({ file }).execute(modeHandler.vimState);
+    fs.unlinkSync(file);
+
+    assert.strictEqual(configuration.tabstop, 4);
+    assert.strictEqual(StatusBar.Get(), `${file}:1: E518: Unknown option (2 errors in total)`);
+  });
+
+  test('Can define commands which expand their parameters', async () => {
+    await runCommand('define-command -params 1 set-tabstop %{ set-option global tabstop %arg{1} }');
+    await runCommand('set-tabstop 6');
+    assert.strictEqual(configuration.tabstop, 6);
+
+    await runCommand('set-tabstop');
+    assert.strictEqual(configuration.tabstop, 6);
+  });
+
+  test('Can redefine a command', async () => {
+    await runCommand('define-command set-tabstop %{ set-option global tabstop 3 }');
+    await runCommand('define-command -params ..1 set-tabstop %{ set-option global tabstop 5 }');
+    await runCommand('set-tabstop');
+    assert.strictEqual(configuration.tabstop, 5);
+  });
+
+  test('Can run hooks on mode changes and keys until their group is removed', async () => {
+    await runCommand(
+      "hook -group test global ModeChange 'KakNormal:KakInsert' %{ set-option global tabstop 7 }"
+    );
+    await runCommand('hook -group test global NormalKey x %{ set-option global expandtab false }');
+
+    await modeHandler.handleMultipleKeyEvents(['i', '<Esc>']);
+    assert.strictEqual(configuration.tabstop, 7);
+
+    await modeHandler.handleKeyEvent('x');
+    assert.strictEqual(configuration.expandtab, false);
+
+    await runCommand('remove-hooks global test');
+    await runCommand('set-option global tabstop 2');
+    await modeHandler.handleMultipleKeyEvents(['i', '<Esc>']);
+    assert.strictEqual(configuration.tabstop, 2);
+  });
+
+  test('Can run a hook once', async () => {
+    await runCommand('hook -once global InsertChar [a-z] %{ set-option global tabstop 9 }');
+    await modeHandler.handleMultipleKeyEvents(['i', 'z']);
+    assert.strictEqual(configuration.tabstop, 9);
+
+    await modeHandler.handleMultipleKeyEvents([
+      '<Esc>',
+      ...':set-option global tabstop 2\n'.split(''),
+    ]);
+    await modeHandler.handleMultipleKeyEvents(['i', 'z', '<Esc>']);
+    assert.strictEqual(configuration.tabstop, 2);
+  });
+
+  test('Can run hooks before and after writing the buffer', async () => {
+    await runCommand('hook -once global BufWritePre .* %{ set-option global tabstop 3 }');
+    await runCommand('hook -once global BufWritePost .* %{ set-option global expandtab false }');
+    await new WriteCommand({}).execute(modeHandler.vimState);
+
+    assert.strictEqual(configuration.tabstop, 3);
+    assert.strictEqual(configuration.expandtab, false);
+  });
+
+  test('Can run hooks when KakNormal mode goes idle', async () => {
+    configuration.timeout = 50;
+    await runCommand('hook -once global NormalIdle .* %{ set-option global tabstop 4 }');
+    await modeHandler.handleKeyEvent('l');
+    assert.strictEqual(configuration.tabstop, 2);
+
+    await waitForCondition(() => configuration.tabstop === 4);
+  });
+
+  test('Can run hooks when a buffer is opened', async () => {
+    await runCommand('hook -once global BufOpen .* %{ set-option global tabstop 5 }');
+    const file = await createRandomFile('', '');
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(file));
+
+    await ModeHandlerMap.getOrCreate(file);
+    ModeHandlerMap.delete(file);
+    assert.strictEqual(configuration.tabstop, 5);
+  });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { getAndUpdateModeHandler } from '../../../extension';
+import { Actions } from '../../../src/actions/base';
+import { Position } from '../../../src/common/motion/position';
+import { ModeHandler } from '../../../src/mode/modeHandler';
+import { cleanUpWorkspace, createRandomFile, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal goto', () => {
+  let modeHandler: ModeHandler;
+
+  setup(async () => {
+    await setupWorkspace();
+    modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('iabc\n  def\nghi'.split(''));
+    await modeHandler.handleKeyEvent('<Esc>');
+  });
+
+  teardown(cleanUpWorkspace);
+
+  const assertSelection = (start: Position, stop: Position) => {
+    const selection = modeHandler.vimState.mainSelection;
+    assert.ok(selection.start.isEqual(start), `start is ${selection.start}`);
+    assert.ok(selection.stop.isEqual(stop), `stop is ${selection.stop}`);
+  };
+
+  test("Can handle 'gg' and 'gk' to go to the buffer top", async () => {
+    await modeHandler.handleMultipleKeyEvents(['g', 'g']);
+    assertSelection(new Position(0, 0), new Position(0, 0));
+
+    await modeHandler.handleMultipleKeyEvents(['g', 'j', 'g', 'k']);
+    assertSelection(new Position(0, 0), new Position(0, 0));
+  });
+
+  test("Can handle 'gi' to go to the first non blank character", async () => {
+    await modeHandler.handleMultipleKeyEvents(['g', 'g', 'j', 'g', 'i']);
+    assertSelection(new Position(1, 2), new Position(1, 2));
+  });
+
+  test("Can handle 'Gj' to extend to the buffer bottom", async () => {
+    await modeHandler.handleMultipleKeyEvents(['g', 'g', 'G', 'j']);
+    assertSelection(new Position(0, 0), new Position(2, 0));
+  });
+
+  test("Can handle 'Gl' to extend to the line end", async () => {
+    await modeHandler.handleMultipleKeyEvents(['g', 'g', 'G', 'l']);
+    assertSelection(new Position(0, 0), new Position(0, 3));
+  });
+
+  test("Can handle a count before 'g' to go to a line", async () => {
+    await modeHandler.handleMultipleKeyEvents(['g', 'g', '2', 'g']);
+    assertSelection(new Position(1, 0), new Position(1, 0));
+
+    await modeHandler.handleMultipleKeyEvents(['9', 'g']);
+    assertSelection(new Position(2, 0), new Position(2, 0));
+  });
+
+  test("Can handle a count before 'G' to extend to a line", async () => {
+    await modeHandler.handleMultipleKeyEvents(['g', 'g', '3', 'G']);
+    assertSelection(new Position(0, 0), new Position(2, 0));
+  });
+
+  test('Lists the goto menu continuations with their descriptions', async () => {
+    const continuations = Actions.getContinuations(['g'], modeHandler.vimState);
+    const lineBegin = continuations.find(({ key }) => key === 'h');
+    assert.strictEqual(lineBegin && lineBegin.description, 'line begin');
+    assert.ok(continuations.some(({ key }) => key === '.'));
+  });
+
+  test("Can handle 'gf' to open the selected path", async () => {
+    const filePath = await createRandomFile('', '');
+    await modeHandler.handleMultipleKeyEvents(['o', ...filePath.split(''), '<Esc>']);
+    await modeHandler.handleMultipleKeyEvents(['%', 's', ...'\\S*[/\\\\]\\S+'.split(''), '\n']);
+    await modeHandler.handleMultipleKeyEvents(['g', 'f']);
+
+    assert.strictEqual(vscode.window.activeTextEditor!.document.fileName, filePath);
+  });
+});
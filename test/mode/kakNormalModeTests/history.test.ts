@@ -0,0 +1,83 @@
+import { getAndUpdateModeHandler } from '../../../extension';
+import { ModeHandler } from '../../../src/mode/modeHandler';
+import { assertEqualLines, cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal history', () => {
+  let modeHandler: ModeHandler;
+
+  setup(async () => {
+    await setupWorkspace();
+    modeHandler = await getAndUpdateModeHandler();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  /**
+   * Makes three changes, undoing the second before the third, so the undo tree
+   * has two branches.
+   */
+  async function makeBranches(): Promise<void> {
+    await modeHandler.handleMultipleKeyEvents(['i', 'o', 'n', 'e', '<Esc>']);
+    await modeHandler.handleMultipleKeyEvents(['o', 't', 'w', 'o', '<Esc>']);
+    await modeHandler.handleKeyEvent('u');
+    await modeHandler.handleMultipleKeyEvents(['o', 't', 'h', 'r', 'e', 'e', '<Esc>']);
+    assertEqualLines(['one', 'three']);
+  }
+
+  async function runCommand(command: string): Promise<void> {
+    await modeHandler.handleMultipleKeyEvents([':', ...command.split(''), '\n']);
+  }
+
+  test("Can handle 'u' and 'U' to undo and redo", async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'o', 'n', 'e', '<Esc>']);
+    await modeHandler.handleMultipleKeyEvents(['o', 't', 'w', 'o', '<Esc>']);
+    assertEqualLines(['one', 'two']);
+
+    await modeHandler.handleKeyEvent('u');
+    assertEqualLines(['one']);
+    await modeHandler.handleKeyEvent('u');
+    assertEqualLines(['']);
+    await modeHandler.handleKeyEvent('U');
+    assertEqualLines(['one']);
+    await modeHandler.handleKeyEvent('U');
+    assertEqualLines(['one', 'two']);
+  });
+
+  test('Keeps the undone branch after a new change', async () => {
+    await makeBranches();
+
+    await modeHandler.handleKeyEvent('u');
+    assertEqualLines(['one']);
+    await modeHandler.handleKeyEvent('U');
+    assertEqualLines(['one', 'three']);
+  });
+
+  test("Can handle '<a-u>' and '<a-U>' to move through history chronologically", async () => {
+    await makeBranches();
+
+    await modeHandler.handleKeyEvent('<a-u>');
+    assertEqualLines(['one', 'two']);
+    await modeHandler.handleKeyEvent('<a-u>');
+    assertEqualLines(['one']);
+    await modeHandler.handleMultipleKeyEvents(['2', '<a-U>']);
+    assertEqualLines(['one', 'three']);
+  });
+
+  test('Can handle :earlier and :later with a count', async () => {
+    await makeBranches();
+
+    await runCommand('earlier 2');
+    assertEqualLines(['one']);
+    await runCommand('later');
+    assertEqualLines(['one', 'two']);
+  });
+
+  test('Can handle :earlier and :later with a duration', async () => {
+    await makeBranches();
+
+    await runCommand('ea 1h');
+    assertEqualLines(['']);
+    await runCommand('lat 1h');
+    assertEqualLines(['one', 'three']);
+  });
+});
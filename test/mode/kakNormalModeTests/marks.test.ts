@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+
+import { getAndUpdateModeHandler } from '../../../extension';
+import { ModeHandler } from '../../../src/mode/modeHandler';
+import { cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal marks', () => {
+  let modeHandler: ModeHandler;
+
+  setup(async () => {
+    await setupWorkspace();
+    modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('iabc\ndef\nghi'.split(''));
+    await modeHandler.handleKeyEvent('<Esc>');
+  });
+
+  teardown(cleanUpWorkspace);
+
+  const getSelections = () =>
+    modeHandler.vimState.cursors.map(({ start, stop }) => [
+      start.line,
+      start.character,
+      stop.line,
+      stop.character,
+    ]);
+
+  test("Can handle 'Z' and 'z' to save and restore every selection", async () => {
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-s>', 'Z']);
+    const saved = getSelections();
+    assert.strictEqual(saved.length, 3);
+
+    await modeHandler.handleMultipleKeyEvents(['g', 'g']);
+    assert.strictEqual(getSelections().length, 1);
+
+    await modeHandler.handleKeyEvent('z');
+    assert.deepEqual(getSelections(), saved);
+  });
+
+  test('Can save selections in a named register', async () => {
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-s>', '"', 'a', 'Z']);
+    await modeHandler.handleMultipleKeyEvents(['g', 'g', 'Z', '"', 'a', 'z']);
+    assert.strictEqual(getSelections().length, 3);
+
+    await modeHandler.handleKeyEvent('z');
+    assert.strictEqual(getSelections().length, 1);
+  });
+
+  test("Can handle '<a-z>' to combine the saved selections into the current ones", async () => {
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-s>', 'Z']);
+    const saved = getSelections();
+
+    await modeHandler.handleMultipleKeyEvents([';', '<a-z>', '-']);
+    assert.deepEqual(
+      getSelections(),
+      saved.map(([, , line, character]) => [line, character, line, character])
+    );
+
+    await modeHandler.handleMultipleKeyEvents(['<a-z>', 'u']);
+    assert.deepEqual(getSelections(), saved);
+  });
+
+  test("Can handle '<a-Z>' to combine the current selections into the saved ones", async () => {
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-s>', 'Z', 'g', 'g']);
+    await modeHandler.handleMultipleKeyEvents(['<a-Z>', 'a', 'g', 'j', 'z']);
+    assert.strictEqual(getSelections().length, 4);
+  });
+
+  test('Keeps the selections when the lists cannot be paired up', async () => {
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-s>', 'Z', 'g', 'g']);
+    await modeHandler.handleMultipleKeyEvents(['<a-z>', 'i']);
+    assert.deepEqual(getSelections(), [[0, 0, 0, 0]]);
+  });
+});
@@ -0,0 +1,141 @@
+import { ModeName } from '../../../src/mode/mode';
+import { getTestingFunctions } from '../../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal object selection', () => {
+  const { newTest, newTestOnly, newTestSkip } = getTestingFunctions();
+
+  setup(async () => {
+    await setupWorkspace();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  newTest({
+    title: "Can handle '<a-i>b' to select inside parentheses",
+    start: ['foo(ba|r, baz)'],
+    keysPressed: '<a-i>bd',
+    end: ['foo(|)'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-a>(' to select a whole parenthesis block",
+    start: ['foo(ba|r) x'],
+    keysPressed: '<a-a>(d',
+    end: ['foo| x'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-i>\"' to select inside double quotes",
+    start: ['say "hel|lo" now'],
+    keysPressed: '<a-i>"d',
+    end: ['say "|" now'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-a>q' to select a whole single quoted string",
+    start: ["x 'a|b' y"],
+    keysPressed: '<a-a>qd',
+    end: ['x | y'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-i>w' to select a word",
+    start: ['one t|wo three'],
+    keysPressed: '<a-i>wd',
+    end: ['one | three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-a>w' to select a word and its trailing space",
+    start: ['one t|wo three'],
+    keysPressed: '<a-a>wd',
+    end: ['one |three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-i><space>' to select blanks",
+    start: ['a  |  b'],
+    keysPressed: '<a-i> d',
+    end: ['a|b'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-a>n' to select a number with its sign",
+    start: ['x = -1|2.5;'],
+    keysPressed: '<a-a>nd',
+    end: ['x = |;'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-i>u' to select an argument",
+    start: ['f(a, b|b, c)'],
+    keysPressed: '<a-i>ud',
+    end: ['f(a, |, c)'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-a>u' to select an argument with its separator",
+    start: ['f(a, b|b, c)'],
+    keysPressed: '<a-a>ud',
+    end: ['f(a, |c)'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-a>u' on the last argument",
+    start: ['f(a, |c)'],
+    keysPressed: '<a-a>ud',
+    end: ['f(a|)'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-i>i' to select an indented block",
+    start: ['a', '  b', '  |c', 'd'],
+    keysPressed: '<a-i>id',
+    end: ['a', '|d'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-i>c' to select inside a custom object",
+    start: ['begin x|y end'],
+    keysPressed: '<a-i>cbegin,end\nd',
+    end: ['begin|end'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '[' to select to the object start",
+    start: ['foo(bar b|az)'],
+    keysPressed: '[(d',
+    end: ['foo|z)'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle ']' to select to the object end",
+    start: ['foo(b|ar) x'],
+    keysPressed: ']bd',
+    end: ['foo(b| x'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '}' to extend to the object end",
+    start: ['foo(|bar) x'],
+    keysPressed: '}bd',
+    end: ['foo(| x'],
+    endMode: ModeName.KakNormal,
+  });
+});
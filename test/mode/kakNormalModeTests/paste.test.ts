@@ -0,0 +1,82 @@
+import { getTestingFunctions } from '../../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal paste', () => {
+  const { newTest, newTestOnly, newTestSkip } = getTestingFunctions();
+
+  setup(async () => {
+    await setupWorkspace();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  newTest({
+    title: "Can handle 'y' and 'p' to paste after the selection",
+    start: ['|one two'],
+    keysPressed: 'wyp',
+    end: ['one |one two'],
+  });
+
+  newTest({
+    title: "Can handle 'y' and 'P' to paste before the selection",
+    start: ['one |two'],
+    keysPressed: 'eyP',
+    end: ['one |twotwo'],
+  });
+
+  newTest({
+    title: "Can handle 'p' with a count",
+    start: ['|a'],
+    keysPressed: 'y3p',
+    end: ['a|aaa'],
+  });
+
+  newTest({
+    title: "Can handle 'p' with one entry per selection",
+    start: ['|a b'],
+    keysPressed: '%S \nyp',
+    end: ['a|a bb'],
+  });
+
+  newTest({
+    title: "Can handle 'p' reusing entries when there are more selections",
+    start: ['|x a b'],
+    keysPressed: 'y%S \np',
+    end: ['x|x ax bx'],
+  });
+
+  newTest({
+    title: "Can handle 'p' with lines",
+    start: ['|one', 'two'],
+    keysPressed: 'xyp',
+    end: ['one', '|one', 'two'],
+  });
+
+  newTest({
+    title: "Can handle 'P' with lines",
+    start: ['o|ne', 'two'],
+    keysPressed: 'xyP',
+    end: ['|one', 'one', 'two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-p>' to paste every entry after each selection",
+    start: ['|a b'],
+    keysPressed: '%S \ny<a-p>',
+    end: ['a|ab bab'],
+  });
+
+  newTest({
+    title: "Can handle 'R' to replace the selections",
+    start: ['|x a b'],
+    keysPressed: 'y%S \nR',
+    end: ['|x x x'],
+  });
+
+  newTest({
+    title: "Can handle '\"' to use another register",
+    start: ['|one two'],
+    keysPressed: '"ayw"ap',
+    end: ['one |otwo'],
+  });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+
+import { getAndUpdateModeHandler } from '../../../extension';
+import { ModeHandler } from '../../../src/mode/modeHandler';
+import { assertEqualLines, cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal repeat', () => {
+  let modeHandler: ModeHandler;
+
+  setup(async () => {
+    await setupWorkspace();
+    modeHandler = await getAndUpdateModeHandler();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  test("Can handle '.' to repeat the last insertion on every selection", async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', '<Esc>', 'o', 'b', '<Esc>']);
+    assertEqualLines(['a', 'b']);
+
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-s>', 'i', '-', '<Esc>']);
+    assertEqualLines(['-a', '-b']);
+
+    await modeHandler.handleMultipleKeyEvents(['%', '<a-s>', '.']);
+    assertEqualLines(['--a', '--b']);
+  });
+
+  test("Can handle '.' with a count", async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', '<Esc>']);
+    await modeHandler.handleMultipleKeyEvents(['2', '.']);
+    assertEqualLines(['aaa']);
+  });
+
+  test("Can handle '<a-.>' to repeat the last character find", async () => {
+    await modeHandler.handleMultipleKeyEvents('ia,b,c,d'.split(''));
+    await modeHandler.handleMultipleKeyEvents(['<Esc>', '<a-h>', 'f', ',']);
+    assert.strictEqual(modeHandler.vimState.cursorStopPosition.character, 1);
+
+    await modeHandler.handleKeyEvent('<a-.>');
+    assert.strictEqual(modeHandler.vimState.cursorStopPosition.character, 3);
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+
+import { getAndUpdateModeHandler } from '../../../extension';
+import { getTestingFunctions } from '../../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal rotation', () => {
+  const { newTest, newTestOnly, newTestSkip } = getTestingFunctions();
+
+  setup(async () => {
+    await setupWorkspace();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  test("Can handle ')' and '(' to rotate the main selection", async () => {
+    const modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('ione two three'.split(''));
+    await modeHandler.handleMultipleKeyEvents(['<Esc>', '%', 'S', ' ', '\n']);
+    assert.strictEqual(modeHandler.vimState.mainSelectionIndex, 0);
+
+    await modeHandler.handleMultipleKeyEvents([')']);
+    assert.strictEqual(modeHandler.vimState.mainSelectionIndex, 1);
+
+    await modeHandler.handleMultipleKeyEvents(['2', ')']);
+    assert.strictEqual(modeHandler.vimState.mainSelectionIndex, 0);
+
+    await modeHandler.handleMultipleKeyEvents(['(']);
+    assert.strictEqual(modeHandler.vimState.mainSelectionIndex, 2);
+  });
+
+  newTest({
+    title: "Can handle '<a-)>' to rotate selection contents forward",
+    start: ['|one, two, three'],
+    keysPressed: '%S, \n<a-)>',
+    end: ['|three, one, two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-(>' to rotate selection contents backward",
+    start: ['|one, two, three'],
+    keysPressed: '%S, \n<a-(>',
+    end: ['|two, three, one'],
+  });
+
+  newTest({
+    title: "Can handle '<a-)>' with a count to rotate groups of selections",
+    start: ['|a b c d e'],
+    keysPressed: '%S \n2<a-)>',
+    end: ['|b a d c e'],
+  });
+});
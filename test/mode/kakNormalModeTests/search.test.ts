@@ -0,0 +1,95 @@
+import { getAndUpdateModeHandler } from '../../../extension';
+import { ModeName } from '../../../src/mode/mode';
+import { getTestingFunctions } from '../../testSimplifier';
+import { assertEqualLines, cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal search', () => {
+  const { newTest, newTestOnly, newTestSkip } = getTestingFunctions();
+
+  setup(async () => {
+    await setupWorkspace();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  newTest({
+    title: "Can handle '/' to select the next match",
+    start: ['|one two one two'],
+    keysPressed: '/two\ni-<Esc>',
+    end: ['one -|two one two'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-/>' to select the previous match",
+    start: ['one two one |two'],
+    keysPressed: '<a-/>one\ni-<Esc>',
+    end: ['one two -|one two'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '?' to extend the selection to the next match",
+    start: ['|one two three four'],
+    keysPressed: '?three\nd',
+    end: ['| four'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-?>' to extend the selection to the previous match",
+    start: ['one two |three'],
+    keysPressed: '<a-?>two\nd',
+    end: ['one |hree'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '/' leaving the selections alone without a match",
+    start: ['one |two'],
+    keysPressed: '/three\n',
+    end: ['one |two'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle 'n' to select the next match",
+    start: ['|one two one two'],
+    keysPressed: '/two\nni-<Esc>',
+    end: ['one two one -|two'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle 'n' with a count",
+    start: ['|a b a b a'],
+    keysPressed: '/a\n2ni-<Esc>',
+    end: ['a b a b -|a'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-n>' to select the previous match",
+    start: ['one two one |two'],
+    keysPressed: '<a-/>one\n<a-n>i-<Esc>',
+    end: ['-|one two one two'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle 'N' to add a selection at the next match",
+    start: ['|x one two one'],
+    keysPressed: '/one\nNd',
+    end: ['x | two '],
+    endMode: ModeName.KakNormal,
+  });
+
+  test("Can handle '<a-N>' to add a selection at the previous match", async () => {
+    const modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('ione two one two'.split(''));
+    await modeHandler.handleMultipleKeyEvents(['<Esc>', '<a-/>', 'o', 'n', 'e', '\n']);
+    await modeHandler.handleMultipleKeyEvents(['<a-N>', 'd']);
+
+    assertEqualLines([' two  two']);
+  });
+});
@@ -0,0 +1,155 @@
+import { ModeName } from '../../../src/mode/mode';
+import { getTestingFunctions } from '../../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal selections', () => {
+  const { newTest, newTestOnly, newTestSkip } = getTestingFunctions();
+
+  setup(async () => {
+    await setupWorkspace();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  newTest({
+    title: "Can handle 's' to select matches inside the selection",
+    start: ['|one two one'],
+    keysPressed: '%stwo\n',
+    end: ['one |two one'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle 's' then 'i' on every match",
+    start: ['|one two one'],
+    keysPressed: '%sone\ni-<Esc>',
+    end: ['-|one two -one'],
+  });
+
+  newTest({
+    title: "Can handle 'S' to split the selection",
+    start: ['|one, two, three'],
+    keysPressed: '%S, \ni-<Esc>',
+    end: ['-|one, -two, -three'],
+  });
+
+  newTest({
+    title: "Can handle '<a-s>' to split the selection on lines",
+    start: ['|one', 'two'],
+    keysPressed: '%<a-s>i-<Esc>',
+    end: ['-|one', '-two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-k>' to keep matching selections",
+    start: ['|one', 'two', 'three'],
+    keysPressed: '%<a-s><a-k>t\n',
+    end: ['one', '|two', 'three'],
+  });
+
+  newTest({
+    title: "Can handle '<a-K>' to drop matching selections",
+    start: ['|one', 'two', 'three'],
+    keysPressed: '%<a-s><a-K>t\n',
+    end: ['|one', 'two', 'three'],
+  });
+
+  newTest({
+    title: "Can handle 's' with no match",
+    start: ['one |two'],
+    keysPressed: 'sthree\n',
+    end: ['one |two'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-;>' to flip the selection",
+    start: ['|one two'],
+    keysPressed: '%<a-;>;i-<Esc>',
+    end: ['-|one two'],
+  });
+
+  newTest({
+    title: "Can handle '<a-:>' to make the selection face forward",
+    start: ['|one two'],
+    keysPressed: '%<a-;><a-:>;i-<Esc>',
+    end: ['one tw-|o'],
+  });
+
+  newTest({
+    title: "Can handle 'i' on a backward selection",
+    start: ['one |two'],
+    keysPressed: 'e<a-;>i-<Esc>',
+    end: ['one -|two'],
+  });
+
+  newTest({
+    title: "Can handle '_' to trim whitespace off the selection",
+    start: ['|  one  '],
+    keysPressed: '%_;i-<Esc>',
+    end: ['  on-|e  '],
+  });
+
+  newTest({
+    title: "Can handle '_' on every selection",
+    start: ['|one ,  two , three'],
+    keysPressed: '%S,\n_i-<Esc>',
+    end: ['-|one ,  -two , -three'],
+  });
+
+  newTest({
+    title: "Can handle 'C' to copy the selection to the next line that is long enough",
+    start: ['ab|c', 'x', 'def'],
+    keysPressed: 'Ci-<Esc>',
+    end: ['ab-|c', 'x', 'de-f'],
+  });
+
+  newTest({
+    title: "Can handle '<a-C>' to copy the selection to the previous line",
+    start: ['abc', 'x', 'de|f'],
+    keysPressed: '<a-C>i-<Esc>',
+    end: ['ab-c', 'x', 'de-|f'],
+  });
+
+  newTest({
+    title: "Can handle 'C' with a count",
+    start: ['|a', 'b', 'c'],
+    keysPressed: '2Ci-<Esc>',
+    end: ['-|a', '-b', '-c'],
+  });
+
+  newTest({
+    title: "Can handle 'C' with a count past a short line in the middle",
+    start: ['ab|c', 'def', 'x', 'ghi'],
+    keysPressed: '2Ci-<Esc>',
+    end: ['ab-|c', 'de-f', 'x', 'gh-i'],
+  });
+
+  newTest({
+    title: "Can handle 'C' to copy the selection to the same screen column across tabs",
+    start: ['\tab|c', 'x', '    defg'],
+    keysPressed: 'Ci-<Esc>',
+    end: ['\tab-|c', 'x', '    -defg'],
+  });
+
+  newTest({
+    title: "Can handle '<a-m>' to merge contiguous selections",
+    start: ['|ab cd'],
+    keysPressed: '%s[a-z]\n<a-m>i-<Esc>',
+    end: ['-|ab -cd'],
+  });
+
+  newTest({
+    title: "Can handle '<space>' with a count to keep one selection",
+    start: ['|one two one'],
+    keysPressed: '%sone\n2 i-<Esc>',
+    end: ['one two -|one'],
+  });
+
+  newTest({
+    title: "Can handle '<a-space>' with a count to remove one selection",
+    start: ['|one two one'],
+    keysPressed: '%sone\n1<a-space>i-<Esc>',
+    end: ['one two -|one'],
+  });
+});
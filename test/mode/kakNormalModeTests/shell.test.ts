@@ -0,0 +1,80 @@
+import { getAndUpdateModeHandler } from '../../../extension';
+import { ModeName } from '../../../src/mode/mode';
+import { getTestingFunctions } from '../../testSimplifier';
+import { assertEqualLines, cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal shell commands', () => {
+  const { newTest, newTestOnly, newTestSkip } = getTestingFunctions();
+
+  setup(async () => {
+    await setupWorkspace();
+  });
+
+  teardown(cleanUpWorkspace);
+
+  newTest({
+    title: "Can handle '|' to replace the selection with the output of a filter",
+    start: ['one |two three'],
+    keysPressed: 'w|tr a-z A-Z\n',
+    end: ['one |TWO three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-|>' to ignore the output of a filter",
+    start: ['one |two three'],
+    keysPressed: 'w<a-|>tr a-z A-Z\n',
+    end: ['one |two three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '!' to insert command output before the selection",
+    start: ['one |two three'],
+    keysPressed: 'w!echo hi\n',
+    end: ['one |hi', 'two three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<a-!>' to append command output after the selection",
+    start: ['one |two three'],
+    keysPressed: 'w<a-!>printf X\n',
+    end: ['one two |Xthree'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '|' exposing the selection to the command",
+    start: ['one |two three'],
+    keysPressed: 'w|printf %s "$kak_selection_desc"\n',
+    end: ['one |1.5,1.8three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '|' leaving the buffer alone when the command fails",
+    start: ['one |two three'],
+    keysPressed: 'w|echo HI; false\n',
+    end: ['one |two three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  newTest({
+    title: "Can handle '<Esc>' to cancel a shell prompt",
+    start: ['one |two three'],
+    keysPressed: 'w|tr a-z A-Z<Esc>',
+    end: ['one |two three'],
+    endMode: ModeName.KakNormal,
+  });
+
+  test("Can handle '$' to keep the selections whose command succeeds", async () => {
+    const modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('ione two three'.split(''));
+    await modeHandler.handleMultipleKeyEvents(['<Esc>', '%', 'S', ' ', '\n']);
+    await modeHandler.handleMultipleKeyEvents('$grep -q o\n'.split(''));
+    await modeHandler.handleMultipleKeyEvents(['d']);
+
+    assertEqualLines(['  three']);
+  });
+});
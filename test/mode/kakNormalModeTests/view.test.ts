@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+
+import { getAndUpdateModeHandler } from '../../../extension';
+import { ModeName } from '../../../src/mode/mode';
+import { ModeHandler } from '../../../src/mode/modeHandler';
+import { cleanUpWorkspace, setupWorkspace } from '../../testUtils';
+
+suite('Mode KakNormal view', () => {
+  let modeHandler: ModeHandler;
+
+  setup(async () => {
+    await setupWorkspace();
+    modeHandler = await getAndUpdateModeHandler();
+    await modeHandler.handleMultipleKeyEvents('iabc\ndef\nghi'.split(''));
+    await modeHandler.handleKeyEvent('<Esc>');
+  });
+
+  teardown(cleanUpWorkspace);
+
+  test("Can handle 'v' commands without moving the selection", async () => {
+    const before = modeHandler.vimState.mainSelection;
+
+    await modeHandler.handleMultipleKeyEvents(['v', 'k', 'v', 'c', 'v', 't']);
+    assert.strictEqual(modeHandler.vimState.currentMode, ModeName.KakNormal);
+    assert.ok(modeHandler.vimState.mainSelection.equals(before));
+  });
+
+  test("Can handle 'V' to lock view mode until '<Esc>'", async () => {
+    const before = modeHandler.vimState.mainSelection;
+
+    await modeHandler.handleMultipleKeyEvents(['V', 'k', 'j', 'c']);
+    assert.strictEqual(modeHandler.vimState.currentMode, ModeName.KakView);
+    assert.ok(modeHandler.vimState.mainSelection.equals(before));
+
+    await modeHandler.handleKeyEvent('<Esc>');
+    assert.strictEqual(modeHandler.vimState.currentMode, ModeName.KakNormal);
+
+    await modeHandler.handleKeyEvent('k');
+    assert.strictEqual(modeHandler.vimState.cursorStopPosition.line, 1);
+  });
+});
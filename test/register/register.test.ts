@@ -9,6 +9,8 @@ import { Clipboard } from '../../src/util/clipboard';
 import { getTestingFunctions } from '../testSimplifier';
 import { assertEqual, assertEqualLines, cleanUpWorkspace, setupWorkspace } from '../testUtils';
 import { RecordedState } from '../../src/state/recordedState';
+import { Position } from '../../src/common/motion/position';
+import { Range } from '../../src/common/motion/range';
 
 suite('register', () => {
   let modeHandler: ModeHandler;
@@ -388,4 +390,40 @@ suite('register', () => {
     assert.strictEqual((await Register.getByKey('%')).text, 'Expected for %');
     assert.strictEqual((await Register.getByKey(':')).text, 'Expected for :');
   });
+
+  test('Saved selections follow added and deleted lines', async () => {
+    Register.putSelectionSet('s', {
+      fileName: 'file1',
+      selections: [
+        new Range(new Position(1, 2), new Position(1, 4)),
+        new Range(new Position(5, 0), new Position(6, 3)),
+      ],
+      mainSelectionIndex: 1,
+    });
+
+    Register.handleTextAdded(
+      { fileName: 'file1' },
+      new vscode.Range(new vscode.Position(2, 0), new vscode.Position(2, 0)),
+      '\n'
+    );
+    Register.handleTextDeleted(
+      { fileName: 'file1' },
+      new vscode.Range(new vscode.Position(0, 0), new vscode.Position(1, 0))
+    );
+    Register.handleTextAdded(
+      { fileName: 'file2' },
+      new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 0)),
+      '\n'
+    );
+
+    assert.deepEqual(
+      Register.getSelectionSet('s')!.selections.map(({ start, stop }) => [
+        start.line,
+        start.character,
+        stop.line,
+        stop.character,
+      ]),
+      [[0, 2, 0, 4], [5, 0, 6, 3]]
+    );
+  });
 });
@@ -45,6 +45,9 @@ export class Configuration implements IConfiguration {
   showmodename = true;
   leader = '//';
   history = 50;
+  undofile = false;
+  undofileMaxSize = 1024;
+  undofileMaxAge = 30;
   incsearch = true;
   startInInsertMode = false;
   statusBarColorControl = false;
@@ -98,12 +101,21 @@ export class Configuration implements IConfiguration {
   normalModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
   visualModeKeyBindings: IKeyRemapping[] = [];
   visualModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
+  kakNormalModeKeyBindings: IKeyRemapping[] = [];
+  kakNormalModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
+  kakInsertModeKeyBindings: IKeyRemapping[] = [];
+  kakInsertModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
   insertModeKeyBindingsMap: Map<string, IKeyRemapping>;
   insertModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
   normalModeKeyBindingsMap: Map<string, IKeyRemapping>;
   normalModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
   visualModeKeyBindingsMap: Map<string, IKeyRemapping>;
   visualModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+  kakNormalModeKeyBindingsMap: Map<string, IKeyRemapping>;
+  kakNormalModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+  kakInsertModeKeyBindingsMap: Map<string, IKeyRemapping>;
+  kakInsertModeKeyBindingsNonRecursiveMap: Map<string, IKeyRemapping>;
+  kakrc = '';
   whichwrap = '';
   wrapKeys = {};
   report = 2;
@@ -4,6 +4,7 @@ import * as vscode from 'vscode';
 import { getAndUpdateModeHandler } from '../extension';
 import { Position } from '../src/common/motion/position';
 import { Globals } from '../src/globals';
+import { Notation } from '../src/configuration/notation';
 import { ModeName } from '../src/mode/mode';
 import { ModeHandler } from '../src/mode/modeHandler';
 import { TextEditor } from '../src/textEditor';
@@ -182,6 +183,9 @@ class TestObjectHelper {
 
 /**
  * Tokenize a string like "abc<Esc>d<C-c>" into ["a", "b", "c", "<Esc>", "d", "<C-c>"]
+ *
+ * Alt keys are normalized, so "<alt+x>", "<M-x>" and "<a-x>" all become "<a-x>".
+ * Use Kakoune's names for alt keys that contain angle brackets (e.g. "<a-gt>").
  */
 function tokenizeKeySequence(sequence: string): string[] {
   let isBracketedKey = false;
@@ -216,7 +220,7 @@ function tokenizeKeySequence(sequence: string): string[] {
       continue;
     }
 
-    result.push(key);
+    result.push(/^<(alt\+|a-|m-)/i.test(key) ? Notation.NormalizeKey(key, '') : key);
     key = '';
   }
 
@@ -166,6 +166,21 @@ export async function reloadConfiguration() {
   }
 }
 
+/**
+ * Polls until `condition` holds, for what happens on a timer, failing once
+ * `timeout` milliseconds have gone by.
+ */
+export async function waitForCondition(
+  condition: () => boolean,
+  timeout: number = 2000
+): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    assert(Date.now() - start < timeout, 'Timed out waiting for condition.');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
 /**
  * Waits for the tabs to change after a command like 'gt' or 'gT' is run.
  * Sometimes it is not immediate, so we must busy wait